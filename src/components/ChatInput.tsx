@@ -1,24 +1,32 @@
-import React, { useState, useRef, useEffect } from "react";
-import { Paperclip, Send, X, File as FileIcon, CheckCircle2, Loader2, AlertCircle, Clock } from "lucide-react";
+import React, { useState, useRef } from "react";
+import { Paperclip, Send, Square, X, CheckCircle2, PauseCircle, RefreshCw, Loader2, AlertCircle, Clock, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import FileUploader, { FileItem } from "./FileUploader";
-import { Badge } from "@/components/ui/badge";
-import { FileUploadStatus } from "@/types/file";
+import { Progress } from "@/components/ui/progress";
+import { FileUploadStatus, getUploadStatusLabel, isUploadActive } from "@/types/file";
+import { getFileTypeDefinition } from "@/lib/fileTypeRegistry";
+import { formatTimeRange } from "@/lib/log/timestamp";
+import { TimeRange } from "@/services/adapters/types";
 
 interface ChatInputProps {
-  onSend?: (message: string, file?: FileItem | null) => void;
+  onSend?: (message: string, files: FileItem[]) => void;
   onFileSubmit?: (file: FileItem) => void;
   submittedFiles?: FileItem[];
   placeholder?: string;
   disabled?: boolean;
   onFileUploadClick?: () => void;
   isDemo?: boolean; // For presentation mode
-  activeFile?: FileItem | null; // Add activeFile prop
+  attachedFiles?: FileItem[]; // Files the next question is about
+  onAttachedFilesChange?: (files: FileItem[]) => void;
+  timeRange?: TimeRange | null; // Time window the next question is limited to
+  onTimeRangeChange?: (timeRange: TimeRange | null) => void;
   collapseFileList?: () => void; // Add new prop to collapse file list
+  isStreaming?: boolean; // An answer is streaming in; Send turns into Stop
+  onStop?: () => void;
 }
 
 const ChatInput: React.FC<ChatInputProps> = ({
@@ -29,29 +37,26 @@ const ChatInput: React.FC<ChatInputProps> = ({
   disabled = false,
   onFileUploadClick,
   isDemo = false,
-  activeFile = null,
+  attachedFiles = [],
+  onAttachedFilesChange,
+  timeRange = null,
+  onTimeRangeChange,
   collapseFileList,
+  isStreaming = false,
+  onStop,
 }) => {
   const [message, setMessage] = useState<string>("");
-  const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
   const [isUploaderOpen, setIsUploaderOpen] = useState<boolean>(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  // Update selectedFile when activeFile changes
-  useEffect(() => {
-    if (activeFile) {
-      setSelectedFile(activeFile);
-    }
-  }, [activeFile]);
-
   const handleSend = (e?: React.MouseEvent) => {
     if (e) {
       e.preventDefault();
       e.stopPropagation();
     }
     
-    if ((!message.trim() && !selectedFile) || (message.trim().length === 0 && !selectedFile)) {
+    if (!message.trim() && attachedFiles.length === 0) {
       toast({
         title: "Nothing to send",
         description: "Please type a message or attach a file.",
@@ -60,9 +65,9 @@ const ChatInput: React.FC<ChatInputProps> = ({
       return;
     }
 
-    onSend?.(message, selectedFile);
+    // Attachments stay for follow-up questions until they are removed
+    onSend?.(message, attachedFiles);
     setMessage("");
-    setSelectedFile(null);
     inputRef.current?.focus();
   };
 
@@ -80,9 +85,8 @@ const ChatInput: React.FC<ChatInputProps> = ({
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
-  const handleFileSubmit = (file: FileItem) => {
-    onFileSubmit?.(file);
-    setSelectedFile(file);
+  const handleFileSubmit = (files: FileItem[]) => {
+    files.forEach(file => onFileSubmit?.(file));
     setIsUploaderOpen(false);
     collapseFileList?.();
   };
@@ -107,19 +111,30 @@ const ChatInput: React.FC<ChatInputProps> = ({
     }
   };
 
-  const handleRemoveSelectedFile = (e: React.MouseEvent) => {
+  const handleRemoveAttachedFile = (e: React.MouseEvent, file: FileItem) => {
     e.preventDefault();
     e.stopPropagation();
-    setSelectedFile(null);
+    onAttachedFilesChange?.(attachedFiles.filter(f => f.id !== file.id));
   };
 
-  // Use the active file or selected file for display
-  const displayFile = selectedFile;
+  const handleAttachFile = (file: FileItem) => {
+    if (!attachedFiles.some(f => f.id === file.id)) {
+      onAttachedFilesChange?.([...attachedFiles, file]);
+    }
+  };
+
+  // The chip row shows the time window too, but a window alone is not a question
+  const hasAttachments = attachedFiles.length > 0 || !!timeRange;
+  const canSend = !!message.trim() || attachedFiles.length > 0;
 
   const renderStatusIcon = (status: FileUploadStatus) => {
     switch (status) {
       case FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS:
         return <Loader2 className="h-3.5 w-3.5 text-amber-500 animate-spin" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED:
+        return <PauseCircle className="h-3.5 w-3.5 text-amber-500" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING:
+        return <RefreshCw className="h-3.5 w-3.5 text-amber-500 animate-spin" />;
       case FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE:
         return <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />;
       case FileUploadStatus.FILE_UPLOAD_STATUS_FAILED:
@@ -135,47 +150,68 @@ const ChatInput: React.FC<ChatInputProps> = ({
       onClick={(e) => e.stopPropagation()}
       onMouseDown={(e) => e.stopPropagation()}
     >
-      {displayFile && (
+      {hasAttachments && (
         <div className={cn(
-          "flex items-center justify-between w-full border bg-zinc-900/90 rounded-t-md px-3 py-2",
+          "flex flex-wrap items-center gap-1.5 w-full border bg-zinc-900/90 rounded-t-md px-2 py-2",
           "border-zinc-800 border-b-0"
         )}>
-          <div className="flex items-center gap-3 min-w-0">
-            <FileIcon className="h-4 w-4 text-primary flex-shrink-0" />
-            <div className="min-w-0">
-              <div className="flex items-center gap-2">
-                <span className="text-sm font-medium truncate">{displayFile.name}</span>
-                <Badge variant="outline" className="text-xs bg-zinc-500/20 text-zinc-400">
-                  {displayFile.type.split('/')[1] || displayFile.type}
-                </Badge>
-                {renderStatusIcon(displayFile.status)}
-              </div>
-              <div className="flex items-center gap-2 text-xs text-zinc-400 mt-1">
-                <span>{formatFileSize(displayFile.size)}</span>
-                {displayFile.context && (
-                  <>
-                    <span className="text-zinc-600">•</span>
-                    <span className="truncate">{displayFile.context}</span>
-                  </>
+          {attachedFiles.map(file => {
+            const fileType = getFileTypeDefinition(file.type);
+            const FileTypeIcon = fileType.icon;
+
+            return (
+              <div
+                key={file.id}
+                className="relative flex items-center gap-1.5 max-w-[240px] overflow-hidden rounded-full border border-zinc-700 bg-zinc-800/80 py-0.5 pl-2 pr-0.5"
+                title={`${file.name} · ${fileType.label} · ${formatFileSize(file.size)}${file.context ? ` · ${file.context}` : ""}`}
+              >
+                {isUploadActive(file.status) && (
+                  <Progress
+                    value={file.progress ?? 0}
+                    className="absolute bottom-0 left-0 h-0.5 w-full rounded-none bg-zinc-800"
+                  />
                 )}
+                <FileTypeIcon className={cn("h-3.5 w-3.5 flex-shrink-0", fileType.iconClassName)} />
+                <span className="text-xs font-medium truncate">{file.name}</span>
+                {renderStatusIcon(file.status)}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5 rounded-full shrink-0"
+                  onClick={(e) => handleRemoveAttachedFile(e, file)}
+                  disabled={disabled}
+                  title={`Remove ${file.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
               </div>
+            );
+          })}
+          {timeRange && (
+            <div
+              className="flex items-center gap-1.5 rounded-full border border-blue-600/40 bg-blue-600/10 py-0.5 pl-2 pr-0.5"
+              title="Only log entries from this window are analyzed"
+            >
+              <CalendarClock className="h-3.5 w-3.5 flex-shrink-0 text-blue-400" />
+              <span className="text-xs font-medium">{formatTimeRange(timeRange.from, timeRange.to)}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 rounded-full shrink-0"
+                onClick={() => onTimeRangeChange?.(null)}
+                disabled={disabled}
+                title="Remove time window"
+              >
+                <X className="h-3 w-3" />
+              </Button>
             </div>
-          </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-7 w-7 rounded-full shrink-0 ml-2"
-            onClick={handleRemoveSelectedFile}
-            disabled={disabled}
-          >
-            <X className="h-3.5 w-3.5" />
-          </Button>
+          )}
         </div>
       )}
 
       <div className={cn(
         "flex items-center gap-1.5 w-full border bg-zinc-900/80 px-2 py-1.5",
-        displayFile ? "rounded-b-md border-t-0" : "rounded-md",
+        hasAttachments ? "rounded-b-md border-t-0" : "rounded-md",
         "border-zinc-800",
         disabled ? "opacity-60" : ""
       )}>
@@ -227,13 +263,11 @@ const ChatInput: React.FC<ChatInputProps> = ({
             }}
           >
             <FileUploader
-              onFileSelect={(file) => {
-                setSelectedFile(file);
-              }}
+              onFileSelect={handleAttachFile}
               onSubmit={handleFileSubmit}
-              maxSizeMB={20}
+              maxSizeMB={2048}
               acceptedFileTypes={["*/*"]}
-              initialSelectedFile={selectedFile}
+              initialSelectedFile={attachedFiles[0] ?? null}
               previouslySubmittedFiles={submittedFiles}
               isDemo={isDemo}
             />
@@ -247,22 +281,43 @@ const ChatInput: React.FC<ChatInputProps> = ({
           onKeyDown={handleKeyDown}
           onClick={(e) => e.stopPropagation()}
           onMouseDown={(e) => e.stopPropagation()}
-          placeholder={displayFile 
-            ? `Ask about ${displayFile.name}...` 
-            : placeholder}
+          placeholder={attachedFiles.length > 1
+            ? `Ask about these ${attachedFiles.length} files...`
+            : attachedFiles.length === 1
+              ? `Ask about ${attachedFiles[0].name}...`
+              : timeRange
+                ? `Ask about ${formatTimeRange(timeRange.from, timeRange.to)}...`
+                : placeholder}
           className="flex-1 border-0 focus-visible:ring-0 focus-visible:ring-offset-0 px-0 py-0.5 bg-transparent"
           disabled={disabled}
         />
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-8 w-8 rounded-full shrink-0 text-primary hover:text-primary/80"
-          onClick={handleSend}
-          onMouseDown={(e) => e.stopPropagation()}
-          disabled={disabled || (!message.trim() && !displayFile)}
-        >
-          <Send className="h-5 w-5" />
-        </Button>
+        {isStreaming ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full shrink-0 text-primary hover:text-primary/80"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onStop?.();
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            title="Stop generating"
+          >
+            <Square className="h-4 w-4 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full shrink-0 text-primary hover:text-primary/80"
+            onClick={handleSend}
+            onMouseDown={(e) => e.stopPropagation()}
+            disabled={disabled || !canSend}
+          >
+            <Send className="h-5 w-5" />
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,243 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, BarChart3, FileSearch, MoreHorizontal, RefreshCw, Share2, Table, Terminal, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DiagnosticResult, Severity } from '@/types/diagnosticResult';
+import { TimeRange } from '@/services/adapters/types';
+import { formatTimeRange } from '@/lib/log/timestamp';
+import { getLogViewerPath } from '@/lib/log/viewerLink';
+import { LogTimeline } from '@/components/LogTimeline';
+import { cn } from '@/lib/utils';
+
+interface DiagnosticResultCardProps {
+  result: DiagnosticResult;
+  // More sections may still arrive
+  isStreaming?: boolean;
+  // Time window of the next question, picked on the timeline
+  timeRange?: TimeRange | null;
+  onTimeRangeChange?: (timeRange: TimeRange | null) => void;
+}
+
+const severityStyles: Record<Severity, string> = {
+  info: "bg-blue-500/20 text-blue-400",
+  low: "bg-green-500/20 text-green-400",
+  medium: "bg-amber-500/20 text-amber-400",
+  high: "bg-orange-500/20 text-orange-400",
+  critical: "bg-red-500/20 text-red-400",
+};
+
+const formatDuration = (ms: number): string => {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+};
+
+// Insights, recommendations, tables and evidence of one analysis. The summary
+// is shown by the chat message the result belongs to.
+export const DiagnosticResultCard: React.FC<DiagnosticResultCardProps> = ({
+  result,
+  isStreaming = false,
+  timeRange,
+  onTimeRangeChange,
+}) => {
+  // A single bar is not much of a timeline
+  const hasTimeline = (result.timeline?.buckets.length ?? 0) > 1;
+  const hasSections = hasTimeline || !!(
+    result.insights?.length ||
+    result.recommendations?.length ||
+    result.tables?.length ||
+    result.evidence?.length ||
+    result.validationIssues?.length
+  );
+  if (!hasSections) return null;
+
+  // Every section after the first gets a divider
+  let sectionCount = 0;
+  const sectionClassName = () => cn("p-4", sectionCount++ > 0 && "border-t border-zinc-800");
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-lg overflow-hidden">
+      {result.validationIssues && result.validationIssues.length > 0 && (
+        <div className={cn(sectionClassName(), "flex items-start gap-2 bg-amber-500/5 text-xs text-amber-400")}>
+          <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+          <div>
+            <p>Parts of this analysis could not be displayed because the response did not match the expected format.</p>
+            <ul className="mt-1 text-amber-400/70 font-mono">
+              {result.validationIssues.slice(0, 5).map((issue, index) => (
+                <li key={index} className="truncate">{issue}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {result.insights && result.insights.length > 0 && (
+        <div className={sectionClassName()}>
+          <div className="flex items-center gap-2 mb-2">
+            <h3 className="text-sm font-bold">Key Insights</h3>
+            {result.severity && (
+              <Badge variant="outline" className={cn("border-0 text-xs capitalize", severityStyles[result.severity])}>
+                {result.severity}
+              </Badge>
+            )}
+          </div>
+          <ul className="space-y-1">
+            {result.insights.map((insight, index) => (
+              <li key={index} className="text-sm text-zinc-300 flex items-start">
+                <span className="text-blue-400 mr-2">•</span>
+                {insight}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.recommendations && result.recommendations.length > 0 && (
+        <div className={sectionClassName()}>
+          <h3 className="text-sm font-bold mb-2">Recommendations</h3>
+          <ul className="space-y-1">
+            {result.recommendations.map((rec, index) => (
+              <li key={index} className="text-sm text-zinc-300 flex items-start">
+                <span className="text-green-400 mr-2">•</span>
+                {rec}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {hasTimeline && (
+        <div className={sectionClassName()}>
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <div className="flex items-center gap-2">
+              <BarChart3 className="h-4 w-4 text-zinc-400" />
+              <h3 className="text-sm font-bold">Timeline</h3>
+            </div>
+            {timeRange ? (
+              <div className="flex items-center gap-1 text-xs text-zinc-400">
+                <span>Next question covers {formatTimeRange(timeRange.from, timeRange.to)}</span>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onTimeRangeChange?.(null)}>
+                  Clear
+                </Button>
+              </div>
+            ) : (
+              onTimeRangeChange && (
+                <span className="text-xs text-zinc-500">Drag the handles below the chart to ask about a time window</span>
+              )
+            )}
+          </div>
+          <LogTimeline timeline={result.timeline!} selection={timeRange} onSelectionChange={onTimeRangeChange} />
+        </div>
+      )}
+
+      {result.evidence && result.evidence.length > 0 && (
+        <div className={sectionClassName()}>
+          <h3 className="text-sm font-bold mb-2">Evidence</h3>
+          <ul className="space-y-2">
+            {result.evidence.map((evidence, index) => (
+              <li key={index} className="text-xs">
+                <div className="flex items-center gap-1.5 text-zinc-400">
+                  <FileSearch className="h-3.5 w-3.5" />
+                  <span>{evidence.label ?? "Reference"}</span>
+                  {(evidence.path || evidence.line) && (
+                    <span className="text-zinc-500">
+                      {evidence.path}
+                      {evidence.line && `:${evidence.line}${evidence.endLine ? `-${evidence.endLine}` : ""}`}
+                    </span>
+                  )}
+                  {evidence.fileId && evidence.line && (
+                    <Link
+                      to={getLogViewerPath(evidence.fileId, {
+                        path: evidence.path,
+                        range: { start: evidence.line - 1, end: (evidence.endLine ?? evidence.line) - 1 },
+                      })}
+                      className="ml-auto text-blue-400 hover:underline"
+                    >
+                      Open
+                    </Link>
+                  )}
+                </div>
+                {evidence.excerpt && (
+                  <pre className="mt-1 whitespace-pre-wrap break-all rounded bg-zinc-950 px-2 py-1 font-mono text-zinc-300">
+                    {evidence.excerpt}
+                  </pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.tables && result.tables.map(table => (
+        <div key={table.id} className="mt-4 border-t border-zinc-800">
+          <div className="flex items-center justify-between p-3 bg-zinc-900">
+            <div className="flex items-center gap-2">
+              <Table className="h-4 w-4 text-zinc-400" />
+              <h4 className="text-sm font-medium">{table.name}</h4>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="icon" className="h-7 w-7">
+                <RefreshCw className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7">
+                <MoreHorizontal className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-zinc-900/80 text-xs uppercase">
+                <tr>
+                  {table.columns.map((column, i) => (
+                    <th key={i} className="px-4 py-2 text-left font-medium text-zinc-400">
+                      <div className="flex items-center gap-1">
+                        {column}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.data.map((row, i) => (
+                  <tr key={i} className="border-t border-zinc-800 hover:bg-zinc-800/40">
+                    {row.map((cell, j) => (
+                      <td key={j} className="px-4 py-3 text-xs">
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between p-3 border-t border-zinc-800">
+        <div className="flex items-center gap-2 text-xs text-zinc-400">
+          <Terminal className="h-3.5 w-3.5" />
+          <span>
+            {isStreaming
+              ? "Analysis in progress..."
+              : result.timings?.durationMs !== undefined
+                ? `Analysis completed in ${formatDuration(result.timings.durationMs)}`
+                : "Analysis completed"}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs">
+            <Share2 className="h-3.5 w-3.5" />
+            <span>Share</span>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7">
+            <ThumbsUp className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7">
+            <ThumbsDown className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
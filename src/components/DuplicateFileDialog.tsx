@@ -0,0 +1,49 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FileItem } from '@/components/FileUploader';
+
+interface DuplicateFileDialogProps {
+  file: FileItem | null;
+  existingFile: FileItem | null;
+  analysisCount: number;
+  onReuse: () => void;
+  onUploadAnyway: () => void;
+}
+
+export const DuplicateFileDialog: React.FC<DuplicateFileDialogProps> = ({
+  file,
+  existingFile,
+  analysisCount,
+  onReuse,
+  onUploadAnyway,
+}) => {
+  return (
+    <AlertDialog open={!!file && !!existingFile}>
+      <AlertDialogContent className="bg-zinc-950 border-zinc-800">
+        <AlertDialogHeader>
+          <AlertDialogTitle>This file was already uploaded</AlertDialogTitle>
+          <AlertDialogDescription>
+            "{file?.name}" has the same contents as "{existingFile?.name}"
+            {existingFile?.context ? ` (${existingFile.context})` : ''}.
+            {analysisCount > 0
+              ? ` Reusing it keeps its ${analysisCount} previous ${analysisCount === 1 ? 'analysis' : 'analyses'}.`
+              : ' Reusing it avoids uploading the same bytes again.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onUploadAnyway}>Upload anyway</AlertDialogCancel>
+          <AlertDialogAction onClick={onReuse}>Reuse existing file</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -1,20 +1,40 @@
 
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
 import { getFilteredFiles } from '@/services/fileService';
 import { FileItem } from '@/components/FileUploader';
 import { cn } from '@/lib/utils';
 import { FileCard } from '@/components/file/FileItem';
 import { FileTypeFilters } from '@/components/file/FileTypeFilters';
+import { DateRangeFilter, DateRangeFilterValue } from '@/components/file/DateRangeFilter';
+import { FileSortMenu } from '@/components/file/FileSortMenu';
 import { FileGridLoading } from '@/components/file/FileGridLoading';
 import { FileGridEmpty } from '@/components/file/FileGridEmpty';
+import { ArchiveExplorer } from '@/components/file/ArchiveExplorer';
+import { StructuredViewer } from '@/components/file/StructuredViewer';
+import { ContentSearchResults } from '@/components/file/ContentSearchResults';
+import { FileSearchMode } from '@/components/file/FileSearchInput';
 import { Loader } from 'lucide-react';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { subscribeToUploadEvents } from '@/services/uploadQueue';
+import { FileUploadStatus } from '@/types/file';
+import { getFileTypeDefinition } from '@/lib/fileTypeRegistry';
+import { getLogViewerPath } from '@/lib/log/viewerLink';
+import { parseQuery, searchFiles } from '@/lib/search/query';
+import { FileSearchMatch } from '@/lib/search/fuzzy';
+import { FileFilters, FileSort } from '@/services/adapters/types';
 
 interface FileGridProps {
   searchQuery: string;
+  // "contents" lists matching lines instead of the file cards
+  searchMode?: FileSearchMode;
   onFileSelect: (file: FileItem) => void;
   onFileDelete: (file: FileItem) => void;
   activeFile: FileItem | null;
+  // Files attached to the next question
+  selectedFileIds?: string[];
+  onToggleFileSelection?: (file: FileItem) => void;
   className?: string;
 }
 
@@ -22,16 +42,45 @@ const ITEMS_PER_PAGE = 9; // Display 9 cards at a time
 
 export const FileGrid: React.FC<FileGridProps> = ({
   searchQuery,
+  searchMode = 'files',
   onFileSelect,
   onFileDelete,
   activeFile,
+  selectedFileIds = [],
+  onToggleFileSelection,
   className
 }) => {
   const [fileTypes, setFileTypes] = useState<string[]>([]);
   const [selectedFileTypes, setSelectedFileTypes] = useState<string[]>([]);
+  const [dateFilter, setDateFilter] = useState<DateRangeFilterValue | null>(null);
+  const [sort, setSort] = useState<FileSort | null>(null);
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [allFiles, setAllFiles] = useState<FileItem[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [viewingArchive, setViewingArchive] = useState<FileItem | null>(null);
+  const [viewingStructured, setViewingStructured] = useState<FileItem | null>(null);
+  // Matched fragments of the loaded files, by id, for highlighting
+  const [matches, setMatches] = useState<Record<string, FileSearchMatch>>({});
+  const navigate = useNavigate();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const { jobs: uploadJobs, retry, cancel, remove } = useUploadQueue();
+  
+  // Uploads that have not reached the backend yet are shown ahead of the
+  // list. The backend never sees them, so the search applies here.
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const queued = searchFiles(
+    uploadJobs
+      .filter(job => job.file.status !== FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE)
+      .map(job => job.file),
+    parsedQuery
+  );
+  const queuedFiles = queued.files;
+
+  const contentFilters = useMemo<FileFilters>(() => ({
+    query: searchQuery,
+    fileTypes: selectedFileTypes.length > 0 ? selectedFileTypes : undefined,
+    dateRange: dateFilter ?? undefined
+  }), [searchQuery, selectedFileTypes, dateFilter]);
   
   const {
     items: files,
@@ -46,25 +95,37 @@ export const FileGrid: React.FC<FileGridProps> = ({
     loadMoreDelay: 500
   });
   
-  // Reset when search query or file types changes
+  // Reload the list once an upload has landed
+  useEffect(() => subscribeToUploadEvents((event) => {
+    if (event.type === 'complete') {
+      setRefreshKey(key => key + 1);
+    }
+  }), []);
+  
+  // Reset when the search query, a filter, the sort order or the mode changes
   useEffect(() => {
     setInitialLoadComplete(false);
     reset();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [searchQuery, selectedFileTypes]);
+  }, [searchQuery, selectedFileTypes, dateFilter, sort, refreshKey, searchMode]);
   
-  // Load files when component mounts or filters change
+  // Load files when component mounts or filters change. The contents mode
+  // does not show the cards, so nothing is fetched for it.
   useEffect(() => {
+    if (searchMode === 'contents') return;
+
     const fetchFiles = async (page: number) => {
       try {
         console.log(`Fetching page ${page} with ${ITEMS_PER_PAGE} items per page`);
         
-        const { files, total } = await getFilteredFiles(
+        const { files, total, matches } = await getFilteredFiles(
           {
             query: searchQuery,
-            fileTypes: selectedFileTypes.length > 0 ? selectedFileTypes : undefined
+            fileTypes: selectedFileTypes.length > 0 ? selectedFileTypes : undefined,
+            dateRange: dateFilter ?? undefined
           },
-          { page, limit: ITEMS_PER_PAGE }
+          { page, limit: ITEMS_PER_PAGE },
+          sort ?? undefined
         );
         
         // Debug
@@ -73,6 +134,7 @@ export const FileGrid: React.FC<FileGridProps> = ({
         if (page === 1) {
           setInitialLoadComplete(true);
         }
+        setMatches(prev => page === 1 ? matches ?? {} : { ...prev, ...matches });
         
         return {
           data: files,
@@ -91,13 +153,13 @@ export const FileGrid: React.FC<FileGridProps> = ({
     
     loadMore(fetchFiles);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [searchQuery, selectedFileTypes]);
+  }, [searchQuery, selectedFileTypes, dateFilter, sort, refreshKey, searchMode]);
   
-  // Get all files for counting purposes
+  // Get all files in the date range for counting purposes
   useEffect(() => {
     const fetchAllFiles = async () => {
       try {
-        const allFiles = await getFilteredFiles({}, { page: 1, limit: 1000 });
+        const allFiles = await getFilteredFiles({ dateRange: dateFilter ?? undefined }, { page: 1, limit: 1000 });
         setAllFiles(allFiles.files);
       } catch (error) {
         console.error('Error fetching all files:', error);
@@ -105,15 +167,28 @@ export const FileGrid: React.FC<FileGridProps> = ({
     };
     
     fetchAllFiles();
-  }, []);
+  }, [dateFilter, refreshKey]);
   
-  // Extract unique file types for filtering
+  // Extract unique file types for filtering. Selected types stay listed even
+  // when the date range hides all their files, so they can be deselected.
   useEffect(() => {
-    if (allFiles.length > 0) {
-      const types = new Set(allFiles.map(file => file.type));
-      setFileTypes(Array.from(types));
+    const types = new Set([...allFiles.map(file => file.type), ...selectedFileTypes]);
+    setFileTypes(Array.from(types));
+  }, [allFiles, selectedFileTypes]);
+  
+  // Archives open in the bundle explorer, everything else just gets selected
+  const handleView = (file: FileItem) => {
+    const { viewer } = getFileTypeDefinition(file.type);
+    if (viewer === 'archive') {
+      setViewingArchive(file);
+    } else if (viewer === 'log' || viewer === 'text') {
+      navigate(getLogViewerPath(file.id));
+    } else if (viewer === 'json' || viewer === 'yaml' || viewer === 'csv') {
+      setViewingStructured(file);
+    } else {
+      onFileSelect(file);
     }
-  }, [allFiles]);
+  };
   
   const toggleFileType = (type: string) => {
     setSelectedFileTypes(prev => 
@@ -133,13 +208,16 @@ export const FileGrid: React.FC<FileGridProps> = ({
       if (entry.isIntersecting && hasMore && !isLoading) {
         const fetchMoreFiles = async (page: number) => {
           try {
-            const { files, total } = await getFilteredFiles(
+            const { files, total, matches } = await getFilteredFiles(
               {
                 query: searchQuery,
-                fileTypes: selectedFileTypes.length > 0 ? selectedFileTypes : undefined
+                fileTypes: selectedFileTypes.length > 0 ? selectedFileTypes : undefined,
+                dateRange: dateFilter ?? undefined
               },
-              { page, limit: ITEMS_PER_PAGE }
+              { page, limit: ITEMS_PER_PAGE },
+              sort ?? undefined
             );
+            setMatches(prev => ({ ...prev, ...matches }));
             
             return {
               data: files,
@@ -173,63 +251,99 @@ export const FileGrid: React.FC<FileGridProps> = ({
         observer.unobserve(loaderRef.current);
       }
     };
-  }, [hasMore, isLoading, loadMore, loaderRef, searchQuery, selectedFileTypes]);
+  }, [hasMore, isLoading, loadMore, loaderRef, searchQuery, selectedFileTypes, dateFilter, sort, searchMode]);
   
   return (
     <div className={cn("space-y-3", className)}>
-      {/* File type filters */}
-      <FileTypeFilters 
-        fileTypes={fileTypes} 
-        selectedFileTypes={selectedFileTypes} 
-        onToggleFileType={toggleFileType}
-        allFiles={allFiles}
-      />
+      {/* File type and date filters, sort order */}
+      <div className="flex items-start gap-2">
+        <div className="min-w-0 flex-1">
+          <FileTypeFilters 
+            fileTypes={fileTypes} 
+            selectedFileTypes={selectedFileTypes} 
+            onToggleFileType={toggleFileType}
+            allFiles={allFiles}
+          />
+        </div>
+        <DateRangeFilter value={dateFilter} onChange={setDateFilter} />
+        {searchMode === 'files' && (
+          <FileSortMenu value={sort} onChange={setSort} isSearching={!!searchQuery.trim()} />
+        )}
+      </div>
       
-      {/* Grid of files */}
-      <div 
-        ref={scrollContainerRef}
-        className="grid grid-cols-1 md:grid-cols-3 gap-3 min-h-[300px] max-h-[300px] overflow-auto"
-      >
-        {files.length > 0 ? (
-          <>
-            {files.map((file) => (
+      {searchMode === 'contents' ? (
+        <ContentSearchResults filters={contentFilters} refreshKey={refreshKey} />
+      ) : (
+        <>
+          {/* Grid of files */}
+          <div 
+            ref={scrollContainerRef}
+            className="grid grid-cols-1 md:grid-cols-3 gap-3 min-h-[300px] max-h-[300px] overflow-auto"
+          >
+            {queuedFiles.map((file) => (
               <FileCard
                 key={file.id}
                 file={file}
-                isActive={activeFile?.id === file.id}
+                match={queued.matches?.[file.id]}
+                isActive={activeFile?.id === file.id || selectedFileIds.includes(file.id)}
+                isSelected={selectedFileIds.includes(file.id)}
+                onToggleSelect={onToggleFileSelection}
                 onSelect={onFileSelect}
-                onDelete={onFileDelete}
+                onDelete={() => remove(file.id)}
+                onRetry={() => retry(file.id)}
+                onCancel={() => cancel(file.id)}
               />
             ))}
-            
-            {/* Loading indicator at the bottom for infinite scroll */}
-            {hasMore && (
-              <div 
-                ref={loaderRef}
-                className={cn(
-                  "col-span-full flex justify-center py-2",
-                  isLoading ? "opacity-100" : "opacity-0"
+
+            {files.length > 0 ? (
+              <>
+                {files.map((file) => (
+                  <FileCard
+                    key={file.id}
+                    file={file}
+                    match={matches[file.id]}
+                    isActive={activeFile?.id === file.id || selectedFileIds.includes(file.id)}
+                    isSelected={selectedFileIds.includes(file.id)}
+                    onToggleSelect={onToggleFileSelection}
+                    onSelect={onFileSelect}
+                    onDelete={onFileDelete}
+                    onView={handleView}
+                  />
+                ))}
+
+                {/* Loading indicator at the bottom for infinite scroll */}
+                {hasMore && (
+                  <div 
+                    ref={loaderRef}
+                    className={cn(
+                      "col-span-full flex justify-center py-2",
+                      isLoading ? "opacity-100" : "opacity-0"
+                    )}
+                  >
+                    <Loader className="h-4 w-4 animate-spin text-zinc-400" />
+                  </div>
                 )}
-              >
-                <Loader className="h-4 w-4 animate-spin text-zinc-400" />
-              </div>
+              </>
+            ) : (!initialLoadComplete || isLoading) ? (
+              <FileGridLoading className="col-span-full" />
+            ) : (
+              <FileGridEmpty searchQuery={searchQuery} isFiltered={selectedFileTypes.length > 0 || !!dateFilter} />
             )}
-          </>
-        ) : (!initialLoadComplete || isLoading) ? (
-          <FileGridLoading className="col-span-full" />
-        ) : (
-          <FileGridEmpty searchQuery={searchQuery} />
-        )}
-      </div>
-      
-      {/* End of list message */}
-      {!hasMore && files.length > 0 && (
-        <div className="text-center py-4">
-          <p className="text-sm text-zinc-500">
-            Showing all {files.length} files
-          </p>
-        </div>
+          </div>
+
+          {/* End of list message */}
+          {!hasMore && files.length > 0 && (
+            <div className="text-center py-4">
+              <p className="text-sm text-zinc-500">
+                Showing all {files.length} files
+              </p>
+            </div>
+          )}
+        </>
       )}
+      
+      <ArchiveExplorer file={viewingArchive} onClose={() => setViewingArchive(null)} />
+      <StructuredViewer file={viewingStructured} onClose={() => setViewingStructured(null)} />
     </div>
   );
 };
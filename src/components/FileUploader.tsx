@@ -1,11 +1,21 @@
 import React, { useState, useRef, useEffect } from "react";
-import { Upload, X, File as FileIcon, Send, Loader2, CheckCircle2, AlertCircle, Clock } from "lucide-react";
+import { Upload, X, Send, Loader2, CheckCircle2, PauseCircle, RefreshCw, AlertCircle, Clock } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
-import { FileUploadStatus } from "@/types/file";
+import { FileUploadStatus, getUploadStatusLabel, isUploadActive } from "@/types/file";
+import { detectFileType, guessFileType } from "@/lib/fileType";
+import { getFileTypeDefinition } from "@/lib/fileTypeRegistry";
+import { getResumableProgress } from "@/services/chunkedUpload";
+import { DroppedFile, getDroppedFiles } from "@/lib/fileEntries";
+import { hashFile } from "@/lib/hashFile";
+import { DEFAULT_REDACTION_RULES, RedactionReport, RedactionRule } from "@/lib/redaction";
+import { redactFile, scanFile } from "@/lib/redaction/redactionClient";
+import { RedactionPanel, RedactionScan } from "@/components/RedactionPanel";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 
 export interface FileItem {
   id: string;
@@ -13,20 +23,38 @@ export interface FileItem {
   size: number;
   type: string;
   context: string;
+  // Free-form labels (e.g. "k8s", "prod"), searched along with name and context
+  tags?: string[];
   lastModified: number;
   status: FileUploadStatus;
   progress?: number;
+  // The selected browser file; only present until the bytes are uploaded
+  blob?: Blob;
+  // Hex SHA-256 of the contents, used to spot re-uploads of the same file
+  sha256?: string;
+  // Secrets/PII found before upload, and whether they were masked
+  redaction?: RedactionReport;
+  // The secret scan failed, so nothing was checked or masked before upload
+  unscanned?: boolean;
 }
 
 interface FileUploaderProps {
   onFileSelect?: (file: FileItem | null) => void;
-  onSubmit?: (file: FileItem) => void;
+  onSubmit?: (files: FileItem[]) => void;
   onDelete?: (file: FileItem) => void;
   maxSizeMB?: number;
   acceptedFileTypes?: string[];
   initialSelectedFile?: FileItem | null;
   previouslySubmittedFiles?: FileItem[];
   isDemo?: boolean; // For presentation/demo mode
+  // Secret and PII patterns checked before upload
+  redactionRules?: RedactionRule[];
+}
+
+interface QueuedFile {
+  file: FileItem;
+  // Validation problem that keeps this file from being submitted
+  error?: string;
 }
 
 const FileUploader: React.FC<FileUploaderProps> = ({
@@ -38,16 +66,40 @@ const FileUploader: React.FC<FileUploaderProps> = ({
   initialSelectedFile = null,
   previouslySubmittedFiles = [],
   isDemo = false,
+  redactionRules = DEFAULT_REDACTION_RULES,
 }) => {
-  const [selectedFile, setSelectedFile] = useState<FileItem | null>(initialSelectedFile);
-  const [context, setContext] = useState<string>(initialSelectedFile?.context || "");
+  const [queue, setQueue] = useState<QueuedFile[]>(initialSelectedFile ? [{ file: initialSelectedFile }] : []);
+  const [useSharedContext, setUseSharedContext] = useState<boolean>(true);
+  const [sharedContext, setSharedContext] = useState<string>("");
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [demoStatus, setDemoStatus] = useState<FileUploadStatus>(FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED);
   const [demoProgress, setDemoProgress] = useState<number>(0);
   const [contextError, setContextError] = useState<string>("");
+  // Checksum progress for files still being hashed, keyed by file id
+  const [hashProgress, setHashProgress] = useState<Record<string, number>>({});
+  // Secret scan results, keyed by file id
+  const [scans, setScans] = useState<Record<string, RedactionScan>>({});
+  const [maskedRuleIds, setMaskedRuleIds] = useState<string[]>(() => redactionRules.map(rule => rule.id));
+  const [approveRedaction, setApproveRedaction] = useState<boolean>(false);
+  // The user agreed to upload files the scan could not check
+  const [allowUnscanned, setAllowUnscanned] = useState<boolean>(false);
+  const [isRedacting, setIsRedacting] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  // A single queued file keeps the original one-file layout
+  const selectedFile = queue.length === 1 ? queue[0].file : null;
+  const isMultiple = queue.length > 1;
+  const validFiles = queue.filter(item => !item.error).map(item => item.file);
+
+  const getContext = (file: FileItem): string =>
+    isMultiple && useSharedContext ? sharedContext : file.context;
+  const isContextMissing = validFiles.some(file => !getContext(file).trim());
+  const isScanning = validFiles.some(file => scans[file.id]?.status === "scanning");
+  const hasUnscanned = !isDemo && validFiles.some(file => file.blob && scans[file.id]?.status !== "done");
+  const isUnscannedBlocked = hasUnscanned && !allowUnscanned;
+
   // For demo/presentation mode
   useEffect(() => {
     if (isDemo && selectedFile) {
@@ -72,59 +124,211 @@ const FileUploader: React.FC<FileUploaderProps> = ({
     }
   }, [isDemo, selectedFile]);
 
+  // Pick up real upload status/progress for the selected file from the parent
+  useEffect(() => {
+    if (isDemo || !initialSelectedFile) return;
+
+    setQueue(prev => prev.map(item => item.file.id === initialSelectedFile.id
+      ? { ...item, file: { ...item.file, status: initialSelectedFile.status, progress: initialSelectedFile.progress } }
+      : item
+    ));
+  }, [isDemo, initialSelectedFile]);
+
+  const uploadStatus = isDemo ? demoStatus : selectedFile?.status;
+  const uploadProgress = isDemo ? demoProgress : selectedFile?.progress ?? 0;
+  // An earlier chunked upload of this same file was interrupted
+  const resumableProgress = selectedFile && uploadStatus === FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED
+    ? getResumableProgress(selectedFile)
+    : null;
+
+  const validateFile = (file: File, fileType: string): string | undefined => {
+    if (file.size > maxSizeMB * 1024 * 1024) {
+      return `Maximum file size is ${maxSizeMB}MB`;
+    }
+    
+    if (acceptedFileTypes[0] !== "*/*") {
+      const isAccepted = acceptedFileTypes.some(type => 
+        fileType === type || type.endsWith("/*") && fileType.startsWith(type.replace("/*", "/")));
+        
+      if (!isAccepted) {
+        return `Accepted file types: ${acceptedFileTypes.join(", ")}`;
+      }
+    }
+
+    return undefined;
+  };
+
+  const addFiles = (droppedFiles: DroppedFile[]) => {
+    if (droppedFiles.length === 0) return;
+
+    const items: QueuedFile[] = droppedFiles
+      // Skip files that are already queued
+      .filter(({ file, path }) => !queue.some(item =>
+        item.file.name === path && item.file.size === file.size && item.file.lastModified === file.lastModified
+      ))
+      .map(({ file, path }) => {
+        // Refined from the file contents by detectType below
+        const type = guessFileType(path, file.type);
+        return {
+          file: {
+            id: crypto.randomUUID(),
+            name: path,
+            size: file.size,
+            type,
+            context: "",
+            lastModified: file.lastModified,
+            status: FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED,
+            progress: 0,
+            blob: file
+          },
+          error: validateFile(file, type)
+        };
+      });
+
+    // A single rejected file is reported straight away instead of being queued
+    if (items.length === 1 && queue.length === 0 && items[0].error) {
+      toast({
+        title: items[0].error.startsWith("Maximum") ? "File too large" : "Invalid file type",
+        description: items[0].error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const rejected = items.filter(item => item.error).length;
+    if (rejected > 0) {
+      toast({
+        title: "Some files cannot be uploaded",
+        description: `${rejected} of ${items.length} files did not pass validation.`,
+        variant: "destructive",
+      });
+    }
+
+    setQueue(prev => [...prev, ...items]);
+    setContextError("");
+
+    items.filter(item => !item.error).forEach(({ file }) => {
+      detectType(file);
+      computeChecksum(file);
+      scanForSecrets(file);
+    });
+    
+    if (isDemo) {
+      setDemoStatus(FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED);
+      setDemoProgress(0);
+    }
+  };
+
+  // The browser MIME type is empty for most logs, so sniff the contents
+  const detectType = (file: FileItem) => {
+    if (!file.blob) return;
+
+    detectFileType(file.blob, file.name)
+      .then(type => {
+        setQueue(prev => prev.map(item => item.file.id === file.id
+          ? { ...item, file: { ...item.file, type } }
+          : item
+        ));
+      })
+      .catch(error => {
+        // Keep the guess based on the file name
+        console.error("Error detecting file type:", error);
+      });
+  };
+
+  // Look for secrets and PII in a worker; masking happens on submit
+  const scanForSecrets = (file: FileItem) => {
+    if (!file.blob) return;
+
+    setScans(prev => ({ ...prev, [file.id]: { status: "scanning" } }));
+
+    scanFile(file.blob, file.name, redactionRules)
+      .then(report => {
+        setScans(prev => ({ ...prev, [file.id]: { status: "done", report } }));
+      })
+      .catch(error => {
+        console.error("Error scanning for secrets:", error);
+        setScans(prev => ({ ...prev, [file.id]: { status: "failed" } }));
+      });
+  };
+
+  // Attach the scan report, masking the findings first when the user agreed
+  const applyRedaction = async (file: FileItem): Promise<FileItem> => {
+    const report = scans[file.id]?.report;
+    if (!report) return { ...file, unscanned: true };
+
+    if (report.total === 0 || !file.blob || !approveRedaction || maskedRuleIds.length === 0) {
+      return { ...file, redaction: { ...report, maskedRules: [], redacted: false } };
+    }
+
+    const redacted = await redactFile(file.blob, file.name, redactionRules, maskedRuleIds);
+    return {
+      ...file,
+      blob: redacted.blob,
+      size: redacted.blob.size,
+      // The checksum has to describe the bytes that are actually uploaded
+      sha256: redacted.report.redacted ? undefined : file.sha256,
+      redaction: redacted.report
+    };
+  };
+
+  // Hash in a worker while the user types the context
+  const computeChecksum = (file: FileItem) => {
+    if (!file.blob) return;
+
+    setHashProgress(prev => ({ ...prev, [file.id]: 0 }));
+
+    hashFile(file.blob, progress => setHashProgress(prev => ({ ...prev, [file.id]: progress })))
+      .then(sha256 => {
+        setQueue(prev => prev.map(item => item.file.id === file.id
+          ? { ...item, file: { ...item.file, sha256 } }
+          : item
+        ));
+      })
+      .catch(error => {
+        // Not fatal: the upload queue hashes the file again before sending it
+        console.error("Error computing checksum:", error);
+      })
+      .finally(() => {
+        setHashProgress(prev => {
+          const { [file.id]: _done, ...rest } = prev;
+          return rest;
+        });
+      });
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     event.stopPropagation();
     event.preventDefault();
     const fileList = event.target.files;
     if (fileList && fileList.length > 0) {
-      const file = fileList[0];
-      
-      if (file.size > maxSizeMB * 1024 * 1024) {
-        toast({
-          title: "File too large",
-          description: `Maximum file size is ${maxSizeMB}MB`,
-          variant: "destructive",
-        });
-        return;
-      }
-      
-      if (acceptedFileTypes[0] !== "*/*") {
-        const fileType = file.type;
-        const isAccepted = acceptedFileTypes.some(type => 
-          fileType === type || type.endsWith("/*") && fileType.startsWith(type.replace("/*", "/")));
-          
-        if (!isAccepted) {
-          toast({
-            title: "Invalid file type",
-            description: `Accepted file types: ${acceptedFileTypes.join(", ")}`,
-            variant: "destructive",
-          });
-          return;
-        }
-      }
+      addFiles(Array.from(fileList).map(file => ({
+        file,
+        path: file.webkitRelativePath || file.name
+      })));
+    }
+    
+    event.target.value = "";
+  };
 
-      const newFile: FileItem = {
-        id: crypto.randomUUID(),
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        context: "",
-        lastModified: file.lastModified,
-        status: FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED,
-        progress: 0
-      };
+  const removeFile = (fileId: string) => {
+    const remaining = queue.filter(item => item.file.id !== fileId);
+    setQueue(remaining);
+    setContextError("");
 
-      setSelectedFile(newFile);
-      setContext("");
-      
-      if (isDemo) {
-        setDemoStatus(FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED);
-        setDemoProgress(0);
-      }
+    if (remaining.length === 0) {
+      onFileSelect?.(null);
     }
-    
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
+  };
+
+  const updateFileContext = (fileId: string, newContext: string) => {
+    setQueue(prev => prev.map(item => item.file.id === fileId
+      ? { ...item, file: { ...item.file, context: newContext } }
+      : item
+    ));
+
+    if (selectedFile && selectedFile.id === fileId) {
+      onFileSelect?.({ ...selectedFile, context: newContext });
     }
   };
 
@@ -132,13 +336,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({
     e.preventDefault();
     e.stopPropagation();
     const newContext = e.target.value;
-    setContext(newContext);
     setContextError(newContext.trim() ? "" : "Context is required");
     
     if (selectedFile) {
-      const updatedFile = { ...selectedFile, context: newContext };
-      setSelectedFile(updatedFile);
-      onFileSelect?.(updatedFile);
+      updateFileContext(selectedFile.id, newContext);
+    } else {
+      setSharedContext(newContext);
     }
   };
 
@@ -160,51 +363,96 @@ const FileUploader: React.FC<FileUploaderProps> = ({
     setIsDragging(false);
   };
 
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
     
-    const droppedFiles = e.dataTransfer.files;
-    if (droppedFiles && droppedFiles.length > 0) {
-      const event = {
-        target: {
-          files: droppedFiles
-        }
-      } as React.ChangeEvent<HTMLInputElement>;
-      
-      handleFileChange(event);
+    try {
+      addFiles(await getDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      toast({
+        title: "Could not read dropped files",
+        description: "Some of the dropped folders could not be read. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
-  const handleSubmitFile = () => {
-    if (!selectedFile) return;
+  const handleSubmitFile = async () => {
+    if (validFiles.length === 0 || isRedacting) return;
     
-    if (!context.trim()) {
+    if (isContextMissing) {
       setContextError("Context is required");
       toast({
         title: "Validation Error",
-        description: "Please provide context about the diagnostic file.",
+        description: isMultiple
+          ? "Please provide context for every diagnostic file."
+          : "Please provide context about the diagnostic file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isScanning) {
+      toast({
+        title: "Still scanning",
+        description: "Please wait until the secret scan has finished.",
+      });
+      return;
+    }
+
+    if (isUnscannedBlocked) {
+      toast({
+        title: "Not scanned for secrets",
+        description: "Some files could not be scanned. Confirm uploading them unchecked, or remove them.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let files: FileItem[];
+    setIsRedacting(true);
+    try {
+      files = await Promise.all(validFiles.map(file => applyRedaction({ ...file, context: getContext(file) })));
+    } catch (error) {
+      console.error("Error masking secrets:", error);
+      toast({
+        title: "Could not mask secrets",
+        description: "Nothing was uploaded. Please try again or turn off masking.",
         variant: "destructive",
       });
       return;
+    } finally {
+      setIsRedacting(false);
     }
 
     if (isDemo) {
       toast({
-        title: "File submitted",
-        description: `"${selectedFile.name}" is being processed.`,
+        title: files.length > 1 ? "Files submitted" : "File submitted",
+        description: files.length > 1
+          ? `${files.length} files are being processed.`
+          : `"${files[0].name}" is being processed.`,
       });
     } else {
-      onSubmit?.(selectedFile);
+      onSubmit?.(files);
     }
   };
 
+  const renderFileTypeIcon = (type: string, className: string) => {
+    const { icon: Icon, iconClassName } = getFileTypeDefinition(type);
+    return <Icon className={cn(className, iconClassName)} />;
+  };
+
   // Function to render the file status icon
   const renderStatusIcon = (status: FileUploadStatus, progress: number = 0) => {
     switch (status) {
       case FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS:
         return <Loader2 className="h-4 w-4 text-amber-500 animate-spin" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED:
+        return <PauseCircle className="h-4 w-4 text-amber-500" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING:
+        return <RefreshCw className="h-4 w-4 text-amber-500 animate-spin" />;
       case FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE:
         return <CheckCircle2 className="h-4 w-4 text-green-500" />;
       case FileUploadStatus.FILE_UPLOAD_STATUS_FAILED:
@@ -231,6 +479,18 @@ const FileUploader: React.FC<FileUploaderProps> = ({
         description: "File is currently being uploaded to the server",
         progress: 45
       },
+      {
+        status: FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED,
+        label: "Upload Paused",
+        description: "Connection lost, upload will continue once the network is back",
+        progress: 60
+      },
+      {
+        status: FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING,
+        label: "Resuming Upload",
+        description: "Continuing a previously interrupted upload from the last stored chunk",
+        progress: 60
+      },
       {
         status: FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE,
         label: "Upload Complete",
@@ -256,7 +516,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({
                 "border rounded-lg p-3 bg-zinc-900/50",
                 state.status === FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE && "border-green-800/50",
                 state.status === FileUploadStatus.FILE_UPLOAD_STATUS_FAILED && "border-red-800/50",
-                state.status === FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS && "border-amber-800/50",
+                isUploadActive(state.status) && "border-amber-800/50",
                 state.status === FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED && "border-zinc-800"
               )}
             >
@@ -265,12 +525,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({
                   {renderStatusIcon(state.status, state.progress)}
                   <span className="font-medium text-sm">{state.label}</span>
                 </div>
-                {state.status === FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS && (
+                {isUploadActive(state.status) && (
                   <span className="text-xs text-muted-foreground">{state.progress}%</span>
                 )}
               </div>
               <p className="text-xs text-muted-foreground mb-2">{state.description}</p>
-              {(state.status === FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS) && (
+              {isUploadActive(state.status) && (
                 <Progress
                   value={state.progress}
                   className="h-1.5 w-full bg-zinc-700"
@@ -293,23 +553,34 @@ const FileUploader: React.FC<FileUploaderProps> = ({
       {selectedFile && (
         <div className={cn(
           "border rounded-lg p-3 bg-zinc-900/50",
-          isDemo && demoStatus === FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE && "border-green-800/50",
-          isDemo && demoStatus === FileUploadStatus.FILE_UPLOAD_STATUS_FAILED && "border-red-800/50",
-          isDemo && demoStatus === FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS && "border-amber-800/50",
-          isDemo && demoStatus === FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED && "border-zinc-800",
+          uploadStatus === FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE && "border-green-800/50",
+          uploadStatus === FileUploadStatus.FILE_UPLOAD_STATUS_FAILED && "border-red-800/50",
+          isUploadActive(uploadStatus) && "border-amber-800/50",
+          uploadStatus === FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED && "border-zinc-800",
           contextError && "border-red-800/50"
         )}>
           <div className="flex items-start justify-between">
             <div className="flex items-center gap-2">
-              <FileIcon className="h-7 w-7 text-primary" />
+              {renderFileTypeIcon(selectedFile.type, "h-7 w-7")}
               <div>
                 <div className="flex items-center gap-1">
                   <p className="font-medium text-sm truncate max-w-[160px]">{selectedFile.name}</p>
-                  {isDemo && (
-                    <div className="ml-2">{renderStatusIcon(demoStatus, demoProgress)}</div>
+                  {(isDemo || uploadStatus !== FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED) && (
+                    <div className="ml-2">{renderStatusIcon(uploadStatus, uploadProgress)}</div>
                   )}
                 </div>
-                <p className="text-xs text-muted-foreground">{formatFileSize(selectedFile.size)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatFileSize(selectedFile.size)} • {getFileTypeDefinition(selectedFile.type).label}
+                  {resumableProgress !== null && (
+                    <span className="text-amber-400"> • resumes at {resumableProgress}%</span>
+                  )}
+                  {queue[0].error && (
+                    <span className="text-red-400"> • {queue[0].error}</span>
+                  )}
+                  {hashProgress[selectedFile.id] !== undefined && (
+                    <span> • checksum {hashProgress[selectedFile.id]}%</span>
+                  )}
+                </p>
               </div>
             </div>
             <Button 
@@ -319,9 +590,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({
               onClick={(e) => {
                 e.preventDefault();
                 e.stopPropagation();
-                setSelectedFile(null);
-                setContext("");
-                onFileSelect?.(null);
+                removeFile(selectedFile.id);
               }}
               onMouseDown={(e) => e.stopPropagation()}
             >
@@ -329,14 +598,14 @@ const FileUploader: React.FC<FileUploaderProps> = ({
             </Button>
           </div>
           
-          {isDemo && demoStatus === FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS && (
+          {isUploadActive(uploadStatus) && (
             <div className="my-2">
               <div className="flex justify-between items-center text-xs mb-1">
-                <span className="text-zinc-400">Uploading...</span>
-                <span className="text-zinc-400">{demoProgress}%</span>
+                <span className="text-zinc-400">{getUploadStatusLabel(uploadStatus)}...</span>
+                <span className="text-zinc-400">{uploadProgress}%</span>
               </div>
               <Progress
-                value={demoProgress}
+                value={uploadProgress}
                 className="h-1.5 w-full bg-zinc-700"
               />
             </div>
@@ -354,13 +623,13 @@ const FileUploader: React.FC<FileUploaderProps> = ({
                   "min-h-[60px] resize-none text-sm bg-zinc-900 border-zinc-700",
                   contextError && "border-red-400/50 focus-visible:ring-red-400/20"
                 )}
-                value={context}
+                value={selectedFile.context}
                 onChange={handleContextChange}
                 onClick={(e) => e.stopPropagation()}
                 onMouseDown={(e) => e.stopPropagation()}
                 onKeyDown={(e) => e.stopPropagation()}
                 onBlur={() => {
-                  if (!context.trim()) {
+                  if (!selectedFile.context.trim()) {
                     setContextError("Context is required");
                   }
                 }}
@@ -370,6 +639,104 @@ const FileUploader: React.FC<FileUploaderProps> = ({
         </div>
       )}
 
+      {isMultiple && (
+        <div className={cn(
+          "border rounded-lg p-3 bg-zinc-900/50 border-zinc-800 space-y-3",
+          contextError && "border-red-800/50"
+        )}>
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-medium text-zinc-400">
+              {validFiles.length} of {queue.length} files ready
+            </p>
+            <div className="flex items-center gap-2">
+              <label htmlFor="shared-context" className="text-xs text-zinc-400">Shared context</label>
+              <Switch
+                id="shared-context"
+                checked={useSharedContext}
+                onCheckedChange={(checked) => {
+                  setUseSharedContext(checked);
+                  setContextError("");
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="max-h-[220px] overflow-auto divide-y divide-zinc-800 -mx-1 px-1">
+            {queue.map(({ file, error }) => (
+              <div key={file.id} className="py-2 space-y-1.5">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {renderFileTypeIcon(file.type, "h-4 w-4 flex-shrink-0")}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate" title={file.name}>{file.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {formatFileSize(file.size)} • {getFileTypeDefinition(file.type).label}
+                        {error && <span className="text-red-400"> • {error}</span>}
+                        {hashProgress[file.id] !== undefined && <span> • checksum {hashProgress[file.id]}%</span>}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {error
+                      ? <AlertCircle className="h-4 w-4 text-red-500" />
+                      : renderStatusIcon(file.status, file.progress)}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 rounded-full"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        removeFile(file.id);
+                      }}
+                      onMouseDown={(e) => e.stopPropagation()}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+
+                {!error && !useSharedContext && (
+                  <Input
+                    placeholder="Context for this file"
+                    className={cn(
+                      "h-8 text-xs bg-zinc-900 border-zinc-700",
+                      contextError && !file.context.trim() && "border-red-400/50"
+                    )}
+                    value={file.context}
+                    onChange={(e) => updateFileContext(file.id, e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => e.stopPropagation()}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          {useSharedContext && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-zinc-400">Add context about these diagnostic files <span className="text-red-400">*</span></p>
+                {contextError && <p className="text-xs text-red-400">{contextError}</p>}
+              </div>
+              <Textarea
+                placeholder="Describe the issue (e.g., '/var/log snapshot from the API gateway node')"
+                className={cn(
+                  "min-h-[60px] resize-none text-sm bg-zinc-900 border-zinc-700",
+                  contextError && "border-red-400/50 focus-visible:ring-red-400/20"
+                )}
+                value={sharedContext}
+                onChange={handleContextChange}
+                onClick={(e) => e.stopPropagation()}
+                onMouseDown={(e) => e.stopPropagation()}
+                onKeyDown={(e) => e.stopPropagation()}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       <div
         className={cn(
           "border-2 border-dashed rounded-lg p-4 transition-colors cursor-pointer",
@@ -394,6 +761,19 @@ const FileUploader: React.FC<FileUploaderProps> = ({
           onChange={handleFileChange}
           className="hidden"
           accept={acceptedFileTypes.join(",")}
+          multiple
+          onClick={(e) => {
+            e.stopPropagation();
+          }}
+          onKeyDown={(e) => e.stopPropagation()}
+        />
+        <input
+          type="file"
+          ref={folderInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          // Not part of React's input typings
+          {...{ webkitdirectory: "" }}
           onClick={(e) => {
             e.stopPropagation();
           }}
@@ -402,24 +782,52 @@ const FileUploader: React.FC<FileUploaderProps> = ({
         
         <div className="flex flex-col items-center gap-1 text-center">
           <Upload className="h-8 w-8 text-muted-foreground mb-1" />
-          <h3 className="text-sm font-medium">Upload diagnostic file</h3>
+          <h3 className="text-sm font-medium">Upload diagnostic files</h3>
           <p className="text-xs text-muted-foreground">
-            Drag and drop or click to browse (.tgz, .log, .json)
+            Drag and drop files or folders, or click to browse (.tgz, .log, .json)
           </p>
+          <button
+            type="button"
+            className="text-xs text-primary hover:underline"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              folderInputRef.current?.click();
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            Select a folder
+          </button>
         </div>
       </div>
 
-      {selectedFile && (
+      {!isDemo && (
+        <RedactionPanel
+          files={validFiles}
+          scans={scans}
+          rules={redactionRules}
+          maskedRuleIds={maskedRuleIds}
+          onMaskedRuleIdsChange={setMaskedRuleIds}
+          approved={approveRedaction && maskedRuleIds.length > 0}
+          onApprovedChange={setApproveRedaction}
+          allowUnscanned={allowUnscanned}
+          onAllowUnscannedChange={setAllowUnscanned}
+        />
+      )}
+
+      {validFiles.length > 0 && (
         <Button 
           className={cn(
             "w-full",
-            !context.trim() && "opacity-50 cursor-not-allowed"
+            (isContextMissing || isScanning || isUnscannedBlocked) && "opacity-50 cursor-not-allowed"
           )}
           onClick={handleSubmitFile}
-          disabled={!selectedFile || !context.trim()}
+          disabled={isContextMissing || isScanning || isUnscannedBlocked || isRedacting}
         >
-          <Send className="mr-2 h-4 w-4" />
-          Submit Diagnostics File
+          {isRedacting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+          {isRedacting
+            ? "Masking secrets..."
+            : isMultiple ? `Submit ${validFiles.length} Diagnostics Files` : "Submit Diagnostics File"}
         </Button>
       )}
       
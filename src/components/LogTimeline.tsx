@@ -0,0 +1,101 @@
+import React from 'react';
+import { Bar, BarChart, Brush, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { AnalysisTimeline } from '@/types/diagnosticResult';
+import { TimeRange } from '@/services/adapters/types';
+
+interface LogTimelineProps {
+  timeline: AnalysisTimeline;
+  // Window picked with the brush; null means the whole timeline
+  selection?: TimeRange | null;
+  onSelectionChange?: (selection: TimeRange | null) => void;
+}
+
+// Stacked bottom to top
+const chartConfig = {
+  error: { label: "Errors", color: "#ef4444" },
+  warn: { label: "Warnings", color: "#f59e0b" },
+  info: { label: "Info", color: "#3b82f6" },
+  other: { label: "Other", color: "#71717a" },
+} satisfies ChartConfig;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Buckets covered by a selection, clamped to the timeline
+const toIndexes = (timeline: AnalysisTimeline, selection: TimeRange | null | undefined) => {
+  const last = timeline.buckets.length - 1;
+  if (!selection) return { startIndex: 0, endIndex: last };
+
+  const first = timeline.buckets[0].start;
+  const startIndex = Math.floor((selection.from - first) / timeline.bucketMs);
+  const endIndex = Math.ceil((selection.to - first) / timeline.bucketMs) - 1;
+  if (endIndex < 0 || startIndex > last) return { startIndex: 0, endIndex: last };
+
+  return { startIndex: Math.max(0, startIndex), endIndex: Math.min(last, endIndex) };
+};
+
+// Log entries over time by severity. Dragging the brush below the bars picks
+// the time window of the next question.
+export const LogTimeline: React.FC<LogTimelineProps> = ({ timeline, selection, onSelectionChange }) => {
+  const { buckets, bucketMs } = timeline;
+  const { startIndex, endIndex } = toIndexes(timeline, selection);
+  const span = buckets[buckets.length - 1].start - buckets[0].start;
+  const tickFormat = span >= 2 * DAY ? "MMM d" : bucketMs < 60000 ? "HH:mm:ss" : "HH:mm";
+
+  const handleBrushChange = ({ startIndex: start, endIndex: end }: { startIndex?: number; endIndex?: number }) => {
+    if (start === undefined || end === undefined) return;
+
+    onSelectionChange?.(start === 0 && end === buckets.length - 1
+      ? null
+      : { from: buckets[start].start, to: buckets[end].start + bucketMs });
+  };
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+      <BarChart data={buckets} margin={{ top: 4, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="start"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+          tickFormatter={(value: number) => format(value, tickFormat)}
+        />
+        <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={48} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const start = payload[0]?.payload?.start as number | undefined;
+                return start === undefined ? null : format(start, bucketMs < 60000 ? "MMM d, HH:mm:ss" : "MMM d, HH:mm");
+              }}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {(Object.keys(chartConfig) as Array<keyof typeof chartConfig>).map(level => (
+          <Bar key={level} dataKey={level} stackId="levels" fill={`var(--color-${level})`} isAnimationActive={false} />
+        ))}
+        <Brush
+          dataKey="start"
+          height={24}
+          stroke="#52525b"
+          fill="#18181b"
+          travellerWidth={8}
+          startIndex={startIndex}
+          endIndex={endIndex}
+          tickFormatter={(value: number) => format(value, tickFormat)}
+          onChange={handleBrushChange}
+        />
+      </BarChart>
+    </ChartContainer>
+  );
+};
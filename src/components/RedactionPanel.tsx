@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ShieldCheck, Loader2, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { FileItem } from '@/components/FileUploader';
+import { RedactionReport, RedactionRule } from '@/lib/redaction';
+import { cn } from '@/lib/utils';
+
+export interface RedactionScan {
+  status: 'scanning' | 'done' | 'failed';
+  report?: RedactionReport;
+}
+
+interface RedactionPanelProps {
+  files: FileItem[];
+  scans: Record<string, RedactionScan>;
+  rules: RedactionRule[];
+  maskedRuleIds: string[];
+  onMaskedRuleIdsChange: (ruleIds: string[]) => void;
+  approved: boolean;
+  onApprovedChange: (approved: boolean) => void;
+  // Files the scan failed on are only uploaded once this is confirmed
+  allowUnscanned: boolean;
+  onAllowUnscannedChange: (allowed: boolean) => void;
+}
+
+// Only this many findings are listed; the counts always cover all of them
+const MAX_LISTED_FINDINGS = 50;
+
+export const RedactionPanel: React.FC<RedactionPanelProps> = ({
+  files,
+  scans,
+  rules,
+  maskedRuleIds,
+  onMaskedRuleIdsChange,
+  approved,
+  onApprovedChange,
+  allowUnscanned,
+  onAllowUnscannedChange,
+}) => {
+  const [showFindings, setShowFindings] = useState(false);
+
+  const scanned = files.filter(file => scans[file.id]);
+  if (scanned.length === 0) return null;
+
+  const scanning = scanned.filter(file => scans[file.id].status === 'scanning');
+  const failed = scanned.filter(file => scans[file.id].status === 'failed');
+  const withFindings = scanned.filter(file => (scans[file.id].report?.total ?? 0) > 0);
+
+  const counts: Record<string, number> = {};
+  withFindings.forEach(file => {
+    Object.entries(scans[file.id].report!.counts).forEach(([ruleId, count]) => {
+      counts[ruleId] = (counts[ruleId] ?? 0) + count;
+    });
+  });
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const foundRules = rules.filter(rule => counts[rule.id]);
+
+  const findings = withFindings
+    .flatMap(file => scans[file.id].report!.findings.map(finding => ({ file, finding })))
+    .slice(0, MAX_LISTED_FINDINGS);
+
+  const toggleRule = (ruleId: string, checked: boolean) => {
+    onMaskedRuleIdsChange(checked
+      ? [...maskedRuleIds, ruleId]
+      : maskedRuleIds.filter(id => id !== ruleId)
+    );
+  };
+
+  const unscannedConfirmation = failed.length > 0 && (
+    <label className="flex items-center gap-1.5 text-xs text-zinc-300 cursor-pointer">
+      <Checkbox
+        checked={allowUnscanned}
+        onCheckedChange={(checked) => onAllowUnscannedChange(checked === true)}
+      />
+      Upload {failed.length === 1 ? 'it' : 'them'} anyway, without checking for secrets
+    </label>
+  );
+
+  if (scanning.length > 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-zinc-800 bg-zinc-900/50 px-3 py-2 text-xs text-zinc-400">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Scanning {scanning.length === 1 ? `"${scanning[0].name}"` : `${scanning.length} files`} for secrets and personal data...
+      </div>
+    );
+  }
+
+  if (total === 0 && failed.length > 0) {
+    return (
+      <div className="space-y-2 rounded-lg border border-red-900/50 bg-red-500/5 px-3 py-2">
+        <div className="flex items-center gap-2 text-xs text-zinc-400">
+          <AlertCircle className="h-3.5 w-3.5 text-red-400" />
+          Could not scan {failed.length === 1 ? `"${failed[0].name}"` : `${failed.length} files`} for secrets
+        </div>
+        {unscannedConfirmation}
+      </div>
+    );
+  }
+
+  if (total === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-zinc-800 bg-zinc-900/50 px-3 py-2 text-xs text-zinc-400">
+        <ShieldCheck className="h-3.5 w-3.5 text-green-500" />
+        No secrets or personal data found
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-amber-800/50 bg-amber-500/5 p-3">
+      <div className="flex items-start gap-2">
+        <ShieldAlert className="h-4 w-4 flex-shrink-0 text-amber-500 mt-0.5" />
+        <div className="min-w-0">
+          <p className="text-sm font-medium">
+            Found {total} potential {total === 1 ? 'secret' : 'secrets'}
+            {scanned.length > 1 && ` in ${withFindings.length} of ${scanned.length} files`}
+          </p>
+          <p className="text-xs text-zinc-400">
+            Review them and choose what gets masked before the upload.
+            {failed.length > 0 && ` ${failed.length} ${failed.length === 1 ? 'file' : 'files'} could not be scanned.`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+        {foundRules.map(rule => (
+          <label key={rule.id} className="flex items-center gap-1.5 text-xs text-zinc-300 cursor-pointer">
+            <Checkbox
+              checked={maskedRuleIds.includes(rule.id)}
+              onCheckedChange={(checked) => toggleRule(rule.id, checked === true)}
+            />
+            {rule.label}
+            <span className="text-zinc-500">({counts[rule.id]})</span>
+          </label>
+        ))}
+      </div>
+
+      <Collapsible open={showFindings} onOpenChange={setShowFindings}>
+        <CollapsibleTrigger className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white">
+          {showFindings ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          {showFindings ? 'Hide findings' : 'Show findings'}
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <div className="mt-1.5 max-h-[140px] overflow-auto space-y-1.5 rounded border border-zinc-800 bg-zinc-950 p-2">
+            {findings.map(({ file, finding }, index) => (
+              <div key={index} className="text-xs">
+                <p className="text-zinc-500 truncate">
+                  {rules.find(rule => rule.id === finding.ruleId)?.label ?? finding.ruleId}
+                  {' · '}
+                  {finding.path ? `${file.name} › ${finding.path}` : file.name}:{finding.line}
+                </p>
+                <p className="font-mono text-zinc-300 truncate" title={finding.preview}>{finding.preview}</p>
+              </div>
+            ))}
+            {total > findings.length && (
+              <p className="text-xs text-zinc-500">and {total - findings.length} more</p>
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+
+      <div className="flex items-center justify-between gap-2 border-t border-zinc-800 pt-2">
+        <label htmlFor="approve-redaction" className={cn("text-xs", approved ? "text-white" : "text-zinc-400")}>
+          Mask the selected findings before uploading
+        </label>
+        <Switch
+          id="approve-redaction"
+          checked={approved}
+          disabled={maskedRuleIds.length === 0}
+          onCheckedChange={onApprovedChange}
+        />
+      </div>
+      {unscannedConfirmation}
+    </div>
+  );
+};
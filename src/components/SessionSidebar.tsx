@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { useSessions } from '@/hooks/useSessions';
+import { searchSessions } from '@/services/sessionService';
+import { ChatSession } from '@/types/session';
+
+interface SessionSidebarProps {
+  activeSessionId?: string;
+}
+
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({ activeSessionId }) => {
+  const { sessions, loaded, rename, remove } = useSessions();
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>("");
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const visibleSessions = searchSessions(sessions, searchQuery);
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.title);
+  };
+
+  const commitRename = async () => {
+    if (!renamingId) return;
+    const sessionId = renamingId;
+    setRenamingId(null);
+    try {
+      await rename(sessionId, renameValue);
+    } catch (error) {
+      console.error("Error renaming session:", error);
+      toast({
+        title: "Error renaming session",
+        description: "There was an error renaming the session. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (session: ChatSession) => {
+    try {
+      await remove(session.id);
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      toast({
+        title: "Error deleting session",
+        description: `"${session.title}" could not be deleted. Please try again.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (session.id === activeSessionId) {
+      navigate("/");
+    }
+
+    toast({
+      title: "Session deleted",
+      description: `"${session.title}" has been deleted.`,
+    });
+  };
+
+  return (
+    <Sidebar className="border-zinc-800">
+      <SidebarHeader className="gap-3 p-3">
+        <Button asChild variant="outline" size="sm" className="justify-start gap-2">
+          <Link to="/">
+            <Plus className="h-4 w-4" />
+            New investigation
+          </Link>
+        </Button>
+        <SidebarInput
+          placeholder="Search sessions..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+        />
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>History</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {!loaded && Array.from({ length: 3 }).map((_, index) => (
+                <SidebarMenuItem key={index}>
+                  <SidebarMenuSkeleton />
+                </SidebarMenuItem>
+              ))}
+
+              {loaded && visibleSessions.length === 0 && (
+                <p className="px-2 py-1.5 text-xs text-zinc-500">
+                  {searchQuery ? "No sessions match your search" : "Your investigations will appear here"}
+                </p>
+              )}
+
+              {visibleSessions.map(session => (
+                <SidebarMenuItem key={session.id}>
+                  {renamingId === session.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setRenamingId(null);
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        asChild
+                        isActive={session.id === activeSessionId}
+                        className="h-auto py-1.5"
+                      >
+                        <Link to={`/sessions/${session.id}`}>
+                          <MessageSquare className="self-start mt-0.5" />
+                          <div className="min-w-0">
+                            <p className="truncate">{session.title}</p>
+                            <p className="truncate text-xs text-zinc-500">
+                              {formatDistanceToNow(session.updatedAt, { addSuffix: true })}
+                              {session.fileIds.length > 0 && ` · ${session.fileIds.length} ${session.fileIds.length === 1 ? 'file' : 'files'}`}
+                            </p>
+                          </div>
+                        </Link>
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover>
+                            <MoreHorizontal />
+                            <span className="sr-only">Session actions</span>
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        {/* Focus must not jump back to the trigger, or the rename input blurs at once */}
+                        <DropdownMenuContent side="right" align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+                          <DropdownMenuItem onSelect={() => startRename(session)}>
+                            <Pencil className="mr-2 h-3.5 w-3.5" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            className="text-red-400 focus:text-red-400"
+                            onSelect={() => handleDelete(session)}
+                          >
+                            <Trash2 className="mr-2 h-3.5 w-3.5" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import { UploadCloud, X, RotateCw, CheckCircle2, AlertCircle, Loader2, PauseCircle, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { FileUploadStatus, getUploadStatusLabel, isUploadActive } from '@/types/file';
+import { cn } from '@/lib/utils';
+
+export const UploadQueueIndicator: React.FC = () => {
+  const { jobs, activeJobs, failedJobs, cancel, retry, remove, clearFinished } = useUploadQueue();
+
+  if (jobs.length === 0) return null;
+
+  const overallProgress = activeJobs.length > 0
+    ? Math.round(activeJobs.reduce((sum, job) => sum + (job.file.progress ?? 0), 0) / activeJobs.length)
+    : 100;
+
+  const renderStatusIcon = (status: FileUploadStatus) => {
+    switch (status) {
+      case FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS:
+      case FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING:
+        return <Loader2 className="h-3.5 w-3.5 text-amber-500 animate-spin" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED:
+        return <PauseCircle className="h-3.5 w-3.5 text-amber-500" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE:
+        return <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_FAILED:
+        return <AlertCircle className="h-3.5 w-3.5 text-red-500" />;
+      default:
+        return <Clock className="h-3.5 w-3.5 text-muted-foreground" />;
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 gap-1.5 text-xs rounded-full">
+          {activeJobs.length > 0 ? (
+            <Loader2 className="h-4 w-4 text-amber-400 animate-spin" />
+          ) : (
+            <UploadCloud className={cn("h-4 w-4", failedJobs.length > 0 ? "text-red-400" : "text-green-400")} />
+          )}
+          {activeJobs.length > 0 ? (
+            <span>{activeJobs.length} uploading · {overallProgress}%</span>
+          ) : failedJobs.length > 0 ? (
+            <span>{failedJobs.length} failed</span>
+          ) : (
+            <span>Uploads done</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[320px] p-0 bg-zinc-950 border-zinc-800">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+          <h4 className="text-sm font-medium">Uploads</h4>
+          <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={clearFinished}>
+            Clear finished
+          </Button>
+        </div>
+        <div className="max-h-[300px] overflow-auto divide-y divide-zinc-800">
+          {jobs.map(job => (
+            <div key={job.id} className="px-3 py-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {renderStatusIcon(job.file.status)}
+                  <span className="text-sm truncate" title={job.file.name}>{job.file.name}</span>
+                </div>
+                <div className="flex items-center flex-shrink-0">
+                  {job.file.status === FileUploadStatus.FILE_UPLOAD_STATUS_FAILED && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-zinc-400 hover:text-white"
+                      title="Retry upload"
+                      onClick={() => retry(job.id)}
+                    >
+                      <RotateCw className="h-3 w-3" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-zinc-400 hover:text-red-400"
+                    title={isUploadActive(job.file.status) ? "Cancel upload" : "Dismiss"}
+                    onClick={() => isUploadActive(job.file.status) ? cancel(job.id) : remove(job.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              {isUploadActive(job.file.status) && (
+                <div className="flex items-center gap-2">
+                  <Progress value={job.file.progress ?? 0} className="h-1 flex-1 bg-zinc-800" />
+                  <span className="text-[10px] text-zinc-500 w-20 text-right">
+                    {getUploadStatusLabel(job.file.status)} {job.file.progress ?? 0}%
+                  </span>
+                </div>
+              )}
+              {job.error && (
+                <p className="text-xs text-red-400 truncate" title={job.error}>
+                  {job.error}{job.retryAt ? ' · retrying shortly' : ''}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
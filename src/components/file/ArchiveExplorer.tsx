@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight, File, Folder, FolderOpen, Loader2, AlertCircle, Archive } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileItem } from '@/components/FileUploader';
+import { getFileContent } from '@/services/fileService';
+import { extractArchiveEntry, listArchive } from '@/lib/archive/archiveClient';
+import { ArchiveEntry, ArchiveFormat } from '@/lib/archive';
+import { getLogViewerPath } from '@/lib/log/viewerLink';
+import { cn } from '@/lib/utils';
+
+interface ArchiveExplorerProps {
+  file: FileItem | null;
+  onClose: () => void;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  // Missing for directories that only exist implicitly through their children
+  entry?: ArchiveEntry;
+  children: TreeNode[];
+}
+
+// Only the start of large entries is rendered in the preview
+const PREVIEW_LIMIT = 256 * 1024;
+
+const buildTree = (entries: ArchiveEntry[]): TreeNode[] => {
+  const root: TreeNode = { name: '', path: '', children: [] };
+
+  for (const entry of entries) {
+    const parts = entry.path.split('/').filter(Boolean);
+    let node = root;
+
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join('/');
+      let child = node.children.find(c => c.name === part);
+      if (!child) {
+        child = { name: part, path, children: [] };
+        node.children.push(child);
+      }
+      if (index === parts.length - 1) {
+        child.entry = entry;
+      }
+      node = child;
+    });
+  }
+
+  // Folders first, then alphabetically
+  const sort = (nodes: TreeNode[]) => {
+    nodes.sort((a, b) => {
+      const aIsFolder = a.children.length > 0 || !!a.entry?.isDirectory;
+      const bIsFolder = b.children.length > 0 || !!b.entry?.isDirectory;
+      if (aIsFolder !== bIsFolder) return aIsFolder ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+    nodes.forEach(node => sort(node.children));
+  };
+  sort(root.children);
+
+  return root.children;
+};
+
+// Treat anything with NUL bytes near the start as binary
+const isProbablyText = (bytes: Uint8Array) => !bytes.subarray(0, 8000).includes(0);
+
+export const ArchiveExplorer: React.FC<ArchiveExplorerProps> = ({ file, onClose }) => {
+  const [format, setFormat] = useState<ArchiveFormat | null>(null);
+  const [entries, setEntries] = useState<ArchiveEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ text: string | null; truncated: boolean } | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+
+  const tree = useMemo(() => buildTree(entries), [entries]);
+  const selectedEntry = entries.find(entry => entry.path === selectedPath);
+
+  // Download and list the archive whenever a new file is opened
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    setFormat(null);
+    setEntries([]);
+    setError(null);
+    setSelectedPath(null);
+    setPreview(null);
+    setIsLoading(true);
+
+    const open = async () => {
+      try {
+        const blob = file.blob ?? await getFileContent(file.id);
+        const result = await listArchive(file.id, file.name, blob);
+        if (cancelled) return;
+
+        setFormat(result.format);
+        setEntries(result.entries);
+        // Expand the top level so the bundle layout is visible straight away
+        setExpanded(new Set(buildTree(result.entries).map(node => node.path)));
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Could not open the archive');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    open();
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const openEntry = async (entry: ArchiveEntry) => {
+    if (!file) return;
+
+    setSelectedPath(entry.path);
+    setError(null);
+    setPreview(null);
+    setIsPreviewLoading(true);
+
+    try {
+      const bytes = await extractArchiveEntry(file.id, entry.path);
+      const head = bytes.subarray(0, PREVIEW_LIMIT);
+      setPreview({
+        text: isProbablyText(head) ? new TextDecoder().decode(head) : null,
+        truncated: bytes.length > PREVIEW_LIMIT
+      });
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Could not extract the file');
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  const toggleFolder = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes >= 1000000) {
+      return `${(bytes / 1000000).toFixed(2)} MB`;
+    }
+    return `${(bytes / 1000).toFixed(2)} KB`;
+  };
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    const isFolder = node.children.length > 0 || !!node.entry?.isDirectory;
+    const isOpen = expanded.has(node.path);
+
+    return (
+      <div key={node.path}>
+        <button
+          type="button"
+          className={cn(
+            "flex w-full items-center gap-1.5 rounded px-2 py-1 text-left text-xs hover:bg-zinc-800",
+            selectedPath === node.path && "bg-zinc-800 text-white"
+          )}
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          onClick={() => isFolder ? toggleFolder(node.path) : node.entry && openEntry(node.entry)}
+        >
+          {isFolder ? (
+            <>
+              {isOpen ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+              {isOpen ? <FolderOpen className="h-3.5 w-3.5 flex-shrink-0 text-amber-400" /> : <Folder className="h-3.5 w-3.5 flex-shrink-0 text-amber-400" />}
+            </>
+          ) : (
+            <File className="ml-[18px] h-3.5 w-3.5 flex-shrink-0 text-zinc-400" />
+          )}
+          <span className="truncate">{node.name}</span>
+          {!isFolder && node.entry && (
+            <span className="ml-auto flex-shrink-0 pl-2 text-zinc-500">{formatFileSize(node.entry.size)}</span>
+          )}
+        </button>
+        {isFolder && isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const fileCount = entries.filter(entry => !entry.isDirectory).length;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl bg-zinc-950 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="h-4 w-4 text-amber-400" />
+            {file?.name}
+          </DialogTitle>
+          <DialogDescription>
+            {format
+              ? `${format} archive · ${fileCount} ${fileCount === 1 ? 'file' : 'files'}`
+              : 'Opening archive in your browser…'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex h-[420px] items-center justify-center gap-2 text-sm text-zinc-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Decompressing…
+          </div>
+        ) : error && entries.length === 0 ? (
+          <div className="flex h-[420px] items-center justify-center gap-2 text-sm text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : (
+          <div className="grid h-[420px] grid-cols-[280px_1fr] gap-3">
+            <ScrollArea className="rounded-md border border-zinc-800 py-1">
+              {tree.map(node => renderNode(node, 0))}
+            </ScrollArea>
+
+            <div className="flex min-w-0 flex-col rounded-md border border-zinc-800">
+              {selectedEntry && (
+                <div className="flex items-center justify-between gap-2 border-b border-zinc-800 px-3 py-2 text-xs text-zinc-400">
+                  <span className="truncate font-mono">{selectedEntry.path}</span>
+                  <span className="flex flex-shrink-0 items-center gap-3">
+                    <span>
+                      {formatFileSize(selectedEntry.size)}
+                      {selectedEntry.mtime > 0 && ` · ${new Date(selectedEntry.mtime).toLocaleString()}`}
+                    </span>
+                    {file && preview?.text != null && (
+                      <Link
+                        to={getLogViewerPath(file.id, { path: selectedEntry.path })}
+                        className="text-blue-400 hover:underline"
+                      >
+                        Open in viewer
+                      </Link>
+                    )}
+                  </span>
+                </div>
+              )}
+              <ScrollArea className="flex-1">
+                {isPreviewLoading ? (
+                  <div className="flex items-center gap-2 p-3 text-sm text-zinc-400">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Extracting…
+                  </div>
+                ) : error ? (
+                  <p className="p-3 text-sm text-red-400">{error}</p>
+                ) : !preview ? (
+                  <p className="p-3 text-sm text-zinc-500">Select a file to preview its contents.</p>
+                ) : preview.text === null ? (
+                  <p className="p-3 text-sm text-zinc-500">This looks like a binary file and can't be previewed.</p>
+                ) : (
+                  <>
+                    <pre className="whitespace-pre p-3 font-mono text-xs text-zinc-300">{preview.text}</pre>
+                    {preview.truncated && (
+                      <p className="px-3 pb-3 text-xs text-zinc-500">
+                        Showing the first {formatFileSize(PREVIEW_LIMIT)} only.
+                      </p>
+                    )}
+                  </>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
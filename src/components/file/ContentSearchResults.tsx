@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, Loader2, TextSearch } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { HighlightedText } from '@/components/file/HighlightedText';
+import { searchFileContents } from '@/services/fileService';
+import { ContentSearchHit, ContentSearchResult, FileFilters } from '@/services/adapters/types';
+import { getFileTypeDefinition } from '@/lib/fileTypeRegistry';
+import { getLogViewerPath } from '@/lib/log/viewerLink';
+import { getLookupTerms } from '@/lib/search/contents';
+import { getSearchText, parseQuery } from '@/lib/search/query';
+import { cn } from '@/lib/utils';
+
+interface ContentSearchResultsProps {
+  filters: FileFilters;
+  // Changes when files were added, to search again
+  refreshKey?: number;
+  className?: string;
+}
+
+// Files listed at most; searching scans every candidate, so this keeps a
+// common word from scanning the whole workspace
+const MAX_RESULTS = 20;
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Hits in the order they came, grouped by archive entry
+const groupByPath = (hits: ContentSearchHit[]) => {
+  const groups = new Map<string, ContentSearchHit[]>();
+  hits.forEach(hit => groups.set(hit.path, [...(groups.get(hit.path) ?? []), hit]));
+  return Array.from(groups);
+};
+
+// The "search contents" mode of the file list: matching lines of every file,
+// each linking to that line in the log viewer
+export const ContentSearchResults: React.FC<ContentSearchResultsProps> = ({ filters, refreshKey, className }) => {
+  const [debouncedFilters, setDebouncedFilters] = useState(filters);
+  const [results, setResults] = useState<ContentSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedFilters(filters), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const hasSearchWords = useMemo(() => {
+    const { terms, phrases } = getSearchText(parseQuery(debouncedFilters.query ?? ''));
+    return getLookupTerms({ terms, phrases: phrases.map(phrase => phrase.toLowerCase()) }).length > 0;
+  }, [debouncedFilters.query]);
+
+  useEffect(() => {
+    setResults([]);
+    setError(null);
+    setIsSearching(hasSearchWords);
+    if (!hasSearchWords) return;
+
+    let cancelled = false;
+
+    searchFileContents(debouncedFilters, MAX_RESULTS)
+      .then(found => {
+        if (!cancelled) setResults(found);
+      })
+      .catch(searchError => {
+        console.error('Error searching file contents:', searchError);
+        if (!cancelled) setError(searchError instanceof Error ? searchError.message : String(searchError));
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedFilters, hasSearchWords, refreshKey]);
+
+  const renderMessage = (icon: React.ReactNode, message: string, tone = 'text-zinc-500') => (
+    <div className={cn("flex h-[300px] items-center justify-center gap-2 text-sm", tone, className)}>
+      {icon}
+      {message}
+    </div>
+  );
+
+  if (!hasSearchWords) {
+    return renderMessage(
+      <TextSearch className="h-4 w-4" />,
+      'Type the words or a quoted phrase to look for inside the files'
+    );
+  }
+
+  if (isSearching) {
+    return renderMessage(<Loader2 className="h-4 w-4 animate-spin" />, 'Searching file contents…', 'text-zinc-400');
+  }
+
+  if (error) {
+    return renderMessage(<AlertCircle className="h-4 w-4" />, `Could not search the files: ${error}`, 'text-red-400');
+  }
+
+  if (results.length === 0) {
+    return renderMessage(<TextSearch className="h-4 w-4" />, 'No line of any file matches the search');
+  }
+
+  return (
+    <div className={cn("max-h-[300px] space-y-2 overflow-auto", className)}>
+      {results.map(({ file, hits, totalHits }) => {
+        const fileType = getFileTypeDefinition(file.type);
+        const FileTypeIcon = fileType.icon;
+
+        return (
+          <div key={file.id} className="rounded-md border border-zinc-800 bg-zinc-800/40 p-2">
+            <div className="flex items-center gap-2">
+              <FileTypeIcon className={cn("h-4 w-4 flex-shrink-0", fileType.iconClassName)} />
+              <span className="truncate text-sm font-medium">{file.name}</span>
+              <Badge variant="outline" className="ml-auto flex-shrink-0 text-xs text-zinc-400">
+                {totalHits} matching {totalHits === 1 ? 'line' : 'lines'}
+              </Badge>
+            </div>
+
+            {groupByPath(hits).map(([path, pathHits]) => (
+              <div key={path} className="mt-1.5">
+                {path && <p className="truncate px-1 text-xs text-zinc-500">{path}</p>}
+                {pathHits.map(hit => (
+                  <Link
+                    key={hit.line}
+                    to={getLogViewerPath(file.id, {
+                      path: hit.path || undefined,
+                      range: { start: hit.line, end: hit.line }
+                    })}
+                    className="flex gap-3 rounded px-1 py-0.5 font-mono text-xs hover:bg-zinc-800"
+                  >
+                    <span className="w-12 flex-shrink-0 text-right text-zinc-500">{hit.line + 1}</span>
+                    <span className="truncate text-zinc-300">
+                      <HighlightedText text={hit.text} ranges={hit.ranges} />
+                    </span>
+                  </Link>
+                ))}
+              </div>
+            ))}
+
+            {totalHits > hits.length && (
+              <p className="mt-1 px-1 text-xs text-zinc-500">
+                {totalHits - hits.length} more in this file
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
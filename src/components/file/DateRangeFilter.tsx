@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { CalendarDays, X } from 'lucide-react';
+import { DateRange } from 'react-day-picker';
+import { endOfDay, format, startOfDay, subDays, subHours } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+export type DateRangePreset = '24h' | '7d' | '30d' | 'custom';
+
+// Presets are resolved to a start date when picked, so every page of one
+// listing uses the same bounds. They have no end, so files uploaded after
+// picking one still show up.
+export interface DateRangeFilterValue {
+  preset: DateRangePreset;
+  from?: Date;
+  to?: Date;
+}
+
+interface DateRangeFilterProps {
+  value: DateRangeFilterValue | null;
+  onChange: (value: DateRangeFilterValue | null) => void;
+}
+
+const PRESETS: Array<{ preset: Exclude<DateRangePreset, 'custom'>; label: string; resolve: (now: Date) => Date }> = [
+  { preset: '24h', label: 'Last 24 hours', resolve: now => subHours(now, 24) },
+  { preset: '7d', label: 'Last 7 days', resolve: now => subDays(now, 7) },
+  { preset: '30d', label: 'Last 30 days', resolve: now => subDays(now, 30) },
+];
+
+const formatLabel = (value: DateRangeFilterValue | null) => {
+  if (!value) return 'Any time';
+
+  const preset = PRESETS.find(item => item.preset === value.preset);
+  if (preset) return preset.label;
+
+  if (value.from && value.to) {
+    return `${format(value.from, 'MMM d')} – ${format(value.to, 'MMM d')}`;
+  }
+  return value.from ? `Since ${format(value.from, 'MMM d')}` : 'Custom range';
+};
+
+// Last-modified filter for the file grid, shown next to the type filters
+export const DateRangeFilter: React.FC<DateRangeFilterProps> = ({ value, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+
+  const selectPreset = (preset: Exclude<DateRangePreset, 'custom'>) => {
+    onChange({ preset, from: PRESETS.find(item => item.preset === preset)!.resolve(new Date()) });
+    setOpen(false);
+  };
+
+  // Whole days, from the start of the first to the end of the last
+  const selectDays = (range: DateRange | undefined) => {
+    if (!range?.from) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      preset: 'custom',
+      from: startOfDay(range.from),
+      to: endOfDay(range.to ?? range.from),
+    });
+  };
+
+  return (
+    <div className="flex flex-shrink-0 items-center">
+      <Popover
+        open={open}
+        onOpenChange={(isOpen) => {
+          setOpen(isOpen);
+          if (isOpen) setShowCalendar(value?.preset === 'custom');
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className={cn(
+              "h-6 gap-1.5 rounded-full px-2.5 text-xs font-semibold",
+              value ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30" : "hover:bg-zinc-800"
+            )}
+          >
+            <CalendarDays className="h-3.5 w-3.5" />
+            {formatLabel(value)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-auto p-0 bg-zinc-950 border-zinc-800">
+          <div className="flex">
+            <div className="flex w-36 flex-col gap-0.5 border-r border-zinc-800 p-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn("justify-start text-xs", !value && "bg-zinc-800")}
+                onClick={() => {
+                  onChange(null);
+                  setOpen(false);
+                }}
+              >
+                Any time
+              </Button>
+              {PRESETS.map(item => (
+                <Button
+                  key={item.preset}
+                  variant="ghost"
+                  size="sm"
+                  className={cn("justify-start text-xs", value?.preset === item.preset && "bg-zinc-800")}
+                  onClick={() => selectPreset(item.preset)}
+                >
+                  {item.label}
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn("justify-start text-xs", (showCalendar || value?.preset === 'custom') && "bg-zinc-800")}
+                onClick={() => setShowCalendar(true)}
+              >
+                Custom…
+              </Button>
+            </div>
+            {showCalendar && (
+              <Calendar
+                mode="range"
+                numberOfMonths={2}
+                defaultMonth={value?.from ?? subDays(new Date(), 30)}
+                selected={value?.preset === 'custom' ? { from: value.from, to: value.to } : undefined}
+                onSelect={selectDays}
+                disabled={{ after: new Date() }}
+              />
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 rounded-full text-zinc-400"
+          onClick={() => onChange(null)}
+          title="Clear date filter"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -3,9 +3,11 @@ import React from 'react';
 
 interface FileGridEmptyProps {
   searchQuery: string;
+  // A type or date filter is hiding files
+  isFiltered?: boolean;
 }
 
-export const FileGridEmpty: React.FC<FileGridEmptyProps> = ({ searchQuery }) => {
+export const FileGridEmpty: React.FC<FileGridEmptyProps> = ({ searchQuery, isFiltered }) => {
   return (
     <div className="col-span-full flex flex-col items-center justify-center py-16">
       <div className="rounded-full bg-zinc-100 dark:bg-zinc-800 p-4 mb-4">
@@ -26,10 +28,10 @@ export const FileGridEmpty: React.FC<FileGridEmptyProps> = ({ searchQuery }) =>
         </svg>
       </div>
       <p className="text-base font-medium text-zinc-500">
-        {searchQuery ? `No files matching "${searchQuery}"` : "No files found"}
+        {searchQuery ? `No files matching "${searchQuery}"` : isFiltered ? "No files match the filters" : "No files found"}
       </p>
       <p className="text-sm text-zinc-400 mt-1">
-        {searchQuery ? "Try a different search term" : "Upload a file to get started"}
+        {searchQuery ? "Try a different search term" : isFiltered ? "Try a wider date range or fewer types" : "Upload a file to get started"}
       </p>
     </div>
   );
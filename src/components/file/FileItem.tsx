@@ -1,16 +1,32 @@
 import React from 'react';
 import { FileItem } from '@/components/FileUploader';
-import { File, Eye, Trash2, CheckCircle2, Loader2, AlertCircle, Clock } from 'lucide-react';
+import { Eye, Trash2, CheckCircle2, PauseCircle, RefreshCw, RotateCw, X, Loader2, AlertCircle, Clock, ShieldCheck, ShieldAlert, ShieldOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import { FileUploadStatus } from '@/types/file';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FileUploadStatus, isUploadActive } from '@/types/file';
+import { getFileTypeDefinition } from '@/lib/fileTypeRegistry';
+import { FileSearchMatch, getFieldText } from '@/lib/search/fuzzy';
+import { HighlightedText } from '@/components/file/HighlightedText';
 
 interface FileCardProps {
   file: FileItem;
   isActive: boolean;
   onSelect: (file: FileItem) => void;
   onDelete: (file: FileItem) => void;
+  // Opens the file in a viewer; the Eye button falls back to onSelect
+  onView?: (file: FileItem) => void;
+  // Only passed for files that are still in the upload queue
+  onRetry?: (file: FileItem) => void;
+  onCancel?: (file: FileItem) => void;
+  // Multi-select: adds or removes the file from the context of the next
+  // question. Ctrl/Cmd-click on the card does the same.
+  isSelected?: boolean;
+  onToggleSelect?: (file: FileItem) => void;
+  // Where the current search matched, to highlight
+  match?: FileSearchMatch;
 }
 
 export const FileCard: React.FC<FileCardProps> = ({
@@ -18,29 +34,16 @@ export const FileCard: React.FC<FileCardProps> = ({
   isActive,
   onSelect,
   onDelete,
+  onView,
+  onRetry,
+  onCancel,
+  isSelected = false,
+  onToggleSelect,
+  match,
 }) => {
-  const getFileTypeLabel = (type: string): string => {
-    switch (type) {
-      case 'application/gzip': return 'Archive';
-      case 'application/json': return 'JSON';
-      case 'text/plain': return 'Text';
-      case 'application/yaml': return 'YAML';
-      case 'text/csv': return 'CSV';
-      default: return type.split('/')[1] || type;
-    }
-  };
-  
-  const getFileColor = (type: string): string => {
-    switch (type) {
-      case 'application/gzip': return 'bg-amber-500/20 text-amber-500 hover:bg-amber-500/30';
-      case 'application/json': return 'bg-blue-500/20 text-blue-500 hover:bg-blue-500/30';
-      case 'text/plain': return 'bg-gray-500/20 text-gray-500 hover:bg-gray-500/30';
-      case 'application/yaml': return 'bg-green-500/20 text-green-500 hover:bg-green-500/30';
-      case 'text/csv': return 'bg-purple-500/20 text-purple-500 hover:bg-purple-500/30';
-      default: return 'bg-zinc-500/20 text-zinc-400 hover:bg-zinc-500/30';
-    }
-  };
-  
+  const fileType = getFileTypeDefinition(file.type);
+  const FileTypeIcon = fileType.icon;
+
   const formatFileSize = (bytes: number): string => {
     if (bytes >= 1000000) {
       return `${(bytes / 1000000).toFixed(2)} MB`;
@@ -52,6 +55,10 @@ export const FileCard: React.FC<FileCardProps> = ({
     switch (status) {
       case FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS:
         return <Loader2 className="h-3.5 w-3.5 text-amber-500 animate-spin" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED:
+        return <PauseCircle className="h-3.5 w-3.5 text-amber-500" />;
+      case FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING:
+        return <RefreshCw className="h-3.5 w-3.5 text-amber-500 animate-spin" />;
       case FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE:
         return <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />;
       case FileUploadStatus.FILE_UPLOAD_STATUS_FAILED:
@@ -69,43 +76,106 @@ export const FileCard: React.FC<FileCardProps> = ({
           ? 'bg-zinc-800/80 border-blue-500/50 shadow-md'
           : 'bg-zinc-800/40 border-zinc-800 hover:bg-zinc-800/60'
       )}
-      onClick={() => onSelect(file)}
+      onClick={(e) => {
+        if (onToggleSelect && (e.metaKey || e.ctrlKey)) {
+          onToggleSelect(file);
+        } else {
+          onSelect(file);
+        }
+      }}
     >
       <div className="flex items-center gap-3 min-w-0">
-        <File className={cn(
-          "h-4 w-4 flex-shrink-0",
-          file.type === 'application/gzip' && "text-amber-400",
-          file.type === 'application/json' && "text-blue-400",
-          file.type === 'text/plain' && "text-gray-400",
-          file.type === 'application/yaml' && "text-green-400",
-          file.type === 'text/csv' && "text-purple-400"
-        )} />
+        {onToggleSelect && (
+          <Checkbox
+            checked={isSelected}
+            onClick={(e) => e.stopPropagation()}
+            onCheckedChange={() => onToggleSelect(file)}
+            aria-label={`Add ${file.name} to the question`}
+          />
+        )}
+        <FileTypeIcon className={cn("h-4 w-4 flex-shrink-0", fileType.iconClassName)} />
         
         <div className="min-w-0">
           <div className="flex items-center gap-2">
-            <span className="font-medium text-sm truncate">{file.name}</span>
-            <Badge variant="outline" className={cn("text-xs", getFileColor(file.type))}>
-              {getFileTypeLabel(file.type)}
+            <span className="font-medium text-sm truncate">
+              <HighlightedText text={file.name} ranges={match?.ranges.name} />
+            </span>
+            <Badge variant="outline" className={cn("text-xs", fileType.badgeClassName)}>
+              {fileType.label}
             </Badge>
             {renderStatusIcon(file.status)}
+            {file.redaction?.redacted ? (
+              <span title={`${file.redaction.total} potential secrets masked before upload`}>
+                <ShieldCheck className="h-3.5 w-3.5 text-green-500" />
+              </span>
+            ) : file.redaction?.total > 0 ? (
+              <span title={`${file.redaction.total} potential secrets uploaded without masking`}>
+                <ShieldAlert className="h-3.5 w-3.5 text-amber-500" />
+              </span>
+            ) : file.unscanned && (
+              <span title="Not scanned for secrets before upload">
+                <ShieldOff className="h-3.5 w-3.5 text-red-400" />
+              </span>
+            )}
           </div>
           
           <div className="flex items-center gap-2 text-xs text-zinc-400 mt-1">
             <span>{formatFileSize(file.size)}</span>
             <span className="text-zinc-600">•</span>
-            <span className="truncate">{file.context}</span>
+            <span className="truncate">
+              <HighlightedText text={file.context} ranges={match?.ranges.context} />
+            </span>
           </div>
+
+          {/* Tags are only shown when they are why the file matched */}
+          {match?.ranges.tags.length > 0 && (
+            <div className="mt-1 truncate text-xs text-zinc-500">
+              <HighlightedText text={getFieldText(file, 'tags')} ranges={match.ranges.tags} />
+            </div>
+          )}
+
+          {isUploadActive(file.status) && (
+            <Progress value={file.progress ?? 0} className="h-1 mt-1.5 bg-zinc-700" />
+          )}
         </div>
       </div>
       
       <div className="flex items-center gap-1 ml-2">
+        {onRetry && file.status === FileUploadStatus.FILE_UPLOAD_STATUS_FAILED && (
+          <Button 
+            variant="ghost" 
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs text-zinc-400 hover:text-white"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRetry(file);
+            }}
+          >
+            <RotateCw className="h-3.5 w-3.5" />
+            Retry
+          </Button>
+        )}
+        {onCancel && (isUploadActive(file.status) || file.status === FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED) && (
+          <Button 
+            variant="ghost" 
+            size="icon"
+            className="h-7 w-7 text-zinc-400 hover:text-red-400"
+            title="Cancel upload"
+            onClick={(e) => {
+              e.stopPropagation();
+              onCancel(file);
+            }}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
         <Button 
           variant="ghost" 
           size="icon"
           className="h-7 w-7 text-zinc-400 hover:text-white"
           onClick={(e) => {
             e.stopPropagation();
-            onSelect(file);
+            (onView ?? onSelect)(file);
           }}
         >
           <Eye className="h-3.5 w-3.5" />
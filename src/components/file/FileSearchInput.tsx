@@ -0,0 +1,189 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, Info, Search, TextSearch, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { getQuerySuggestions, parseQuery } from '@/lib/search/query';
+import { cn } from '@/lib/utils';
+
+// "files" matches names, contexts and tags; "contents" the text inside
+export type FileSearchMode = 'files' | 'contents';
+
+interface FileSearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  mode?: FileSearchMode;
+  // Shows the toggle between the two modes when set
+  onModeChange?: (mode: FileSearchMode) => void;
+  className?: string;
+}
+
+// Search box for the file list. Suggests filter names and values as you
+// type (arrow keys and Enter pick one) and underlines malformed clauses.
+export const FileSearchInput: React.FC<FileSearchInputProps> = ({
+  value,
+  onChange,
+  mode = 'files',
+  onModeChange,
+  className
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { errors, hints } = useMemo(() => parseQuery(value), [value]);
+  const completion = useMemo(() => getQuerySuggestions(value, cursor), [value, cursor]);
+  const showSuggestions = isOpen && completion.suggestions.length > 0;
+
+  // The query split into plain and malformed parts, drawn under the input
+  const segments = useMemo(() => {
+    const parts: Array<{ text: string; error?: string }> = [];
+    let last = 0;
+    errors.forEach(error => {
+      if (error.start < last) return;
+      parts.push({ text: value.slice(last, error.start) });
+      parts.push({ text: value.slice(error.start, Math.max(error.end, error.start + 1)), error: error.message });
+      last = Math.max(error.end, error.start + 1);
+    });
+    parts.push({ text: value.slice(last) });
+    return parts;
+  }, [value, errors]);
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+    if (overlayRef.current && inputRef.current) {
+      overlayRef.current.scrollLeft = inputRef.current.scrollLeft;
+    }
+  };
+
+  const applySuggestion = (replacement: string) => {
+    const next = value.slice(0, completion.start) + replacement + value.slice(completion.end);
+    const position = completion.start + replacement.length;
+    onChange(next);
+    setCursor(position);
+    // Keep typing where the suggestion ended
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className={cn("relative overflow-visible bg-transparent", className)}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setIsOpen(false);
+      }}
+    >
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-zinc-500" />
+        <Input
+          ref={inputRef}
+          type="text"
+          placeholder={mode === 'contents'
+            ? 'Search inside files… e.g. "connection refused" type:log'
+            : 'Search diagnostic files… e.g. type:json size:>5MB "timeout"'}
+          className={cn(
+            "pl-9 bg-zinc-800/50 border-zinc-700 w-full text-sm",
+            onModeChange ? "pr-16" : "pr-9",
+            errors.length > 0 && "border-red-500/60"
+          )}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCursor(e.target.selectionStart ?? e.target.value.length);
+            setIsOpen(true);
+          }}
+          onSelect={updateCursor}
+          onScroll={updateCursor}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          aria-invalid={errors.length > 0}
+        />
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className={cn(
+            "pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre border border-transparent pl-9 text-sm text-transparent",
+            onModeChange ? "pr-16" : "pr-9"
+          )}
+        >
+          {segments.map((segment, index) =>
+            segment.error ? (
+              <span key={index} className="underline decoration-red-500 decoration-wavy underline-offset-4">
+                {segment.text}
+              </span>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </div>
+        {value && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("absolute top-1 h-7 w-7 hover:bg-zinc-700/50", onModeChange ? "right-8" : "right-1")}
+            onClick={() => onChange('')}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+        {onModeChange && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn(
+              "absolute right-1 top-1 h-7 w-7",
+              mode === 'contents' ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30" : "text-zinc-400 hover:bg-zinc-700/50"
+            )}
+            title={mode === 'contents' ? 'Searching inside files' : 'Search inside files'}
+            aria-pressed={mode === 'contents'}
+            onClick={() => onModeChange(mode === 'contents' ? 'files' : 'contents')}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <TextSearch className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      {showSuggestions && (
+        <CommandList className="absolute top-full z-50 mt-1 w-full rounded-md border border-zinc-800 bg-zinc-950 shadow-md">
+          <CommandGroup heading="Suggestions">
+            {completion.suggestions.map(suggestion => (
+              <CommandItem
+                key={suggestion.value}
+                value={suggestion.value}
+                // Keep the focus in the input
+                onMouseDown={(e) => e.preventDefault()}
+                onSelect={() => applySuggestion(suggestion.value)}
+                className="gap-2 text-xs"
+              >
+                <span className="font-mono">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="ml-auto text-zinc-500">{suggestion.description}</span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      )}
+
+      {errors.length > 0 ? (
+        <p className="mt-1 flex items-center gap-1.5 text-xs text-red-400">
+          <AlertCircle className="h-3.5 w-3.5 flex-shrink-0" />
+          {errors[0].message}
+          {errors.length > 1 && <span className="text-zinc-500">(+{errors.length - 1} more)</span>}
+        </p>
+      ) : hints.length > 0 && (
+        <p className="mt-1 flex items-center gap-1.5 text-xs text-zinc-400">
+          <Info className="h-3.5 w-3.5 flex-shrink-0" />
+          {hints[0].message}
+        </p>
+      )}
+    </Command>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ArrowDownWideNarrow, ArrowUpDown, ArrowUpNarrowWide } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { FileSort, FileSortField, SortDirection } from '@/services/adapters/types';
+import { cn } from '@/lib/utils';
+
+interface FileSortMenuProps {
+  // null keeps the most recently added files first
+  value: FileSort | null;
+  onChange: (value: FileSort | null) => void;
+  // Search results come best match first unless sorted
+  isSearching?: boolean;
+}
+
+const RECENTLY_ADDED = 'added';
+
+// Direction picked along with a field; the one people want most of the time
+const FIELDS: Array<{ field: FileSortField; label: string; direction: SortDirection }> = [
+  { field: 'name', label: 'Name', direction: 'asc' },
+  { field: 'size', label: 'Size', direction: 'desc' },
+  { field: 'lastModified', label: 'Last modified', direction: 'desc' },
+  { field: 'type', label: 'Type', direction: 'asc' },
+  { field: 'status', label: 'Status', direction: 'asc' },
+];
+
+export const FileSortMenu: React.FC<FileSortMenuProps> = ({ value, onChange, isSearching = false }) => {
+  const defaultLabel = isSearching ? 'Relevance' : 'Recently added';
+  const current = value ? FIELDS.find(item => item.field === value.field) : null;
+  const DirectionIcon = !value ? ArrowUpDown : value.direction === 'asc' ? ArrowUpNarrowWide : ArrowDownWideNarrow;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(
+            "h-6 flex-shrink-0 gap-1.5 rounded-full px-2.5 text-xs font-semibold",
+            value ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30" : "hover:bg-zinc-800"
+          )}
+        >
+          <DirectionIcon className="h-3.5 w-3.5" />
+          {current?.label ?? defaultLabel}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-44 bg-zinc-950 border-zinc-800">
+        <DropdownMenuLabel className="text-xs text-zinc-400">Sort by</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={value?.field ?? RECENTLY_ADDED}
+          onValueChange={(field) => {
+            const item = FIELDS.find(candidate => candidate.field === field);
+            onChange(item ? { field: item.field, direction: item.direction } : null);
+          }}
+        >
+          <DropdownMenuRadioItem value={RECENTLY_ADDED} className="text-xs">{defaultLabel}</DropdownMenuRadioItem>
+          {FIELDS.map(item => (
+            <DropdownMenuRadioItem key={item.field} value={item.field} className="text-xs">
+              {item.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {value && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={value.direction}
+              onValueChange={(direction) => onChange({ ...value, direction: direction as SortDirection })}
+            >
+              <DropdownMenuRadioItem value="asc" className="text-xs">Ascending</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="desc" className="text-xs">Descending</DropdownMenuRadioItem>
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { MatchRange } from '@/lib/search/fuzzy';
+
+interface HighlightedTextProps {
+  text: string;
+  // Sorted and non-overlapping, as search results give them
+  ranges?: MatchRange[];
+}
+
+// Text with the parts a search matched marked
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges = [] }) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-400/30 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FileItem } from '@/components/FileUploader';
+import { TreeView } from '@/components/structured/TreeView';
+import { CsvGrid } from '@/components/structured/CsvGrid';
+import { getFileContent } from '@/services/fileService';
+import { getFileTypeDefinition } from '@/lib/fileTypeRegistry';
+import { CsvTable, parseCsv } from '@/lib/structured/csv';
+import { parseStructured } from '@/lib/structured/tree';
+
+interface StructuredViewerProps {
+  // A JSON, YAML or CSV file, by its registry viewer
+  file: FileItem | null;
+  onClose: () => void;
+}
+
+type Contents =
+  | { kind: 'tree'; value: unknown }
+  | { kind: 'table'; table: CsvTable };
+
+// Parsing happens on the main thread, so very large files are refused
+const MAX_SIZE = 20 * 1024 * 1024;
+
+export const StructuredViewer: React.FC<StructuredViewerProps> = ({ file, onClose }) => {
+  const [contents, setContents] = useState<Contents | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const definition = file ? getFileTypeDefinition(file.type) : null;
+  const Icon = definition?.icon;
+
+  // Download and parse the file whenever a new one is opened
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    setContents(null);
+    setError(null);
+    setIsLoading(true);
+
+    const open = async () => {
+      try {
+        const blob = file.blob ?? await getFileContent(file.id);
+        if (blob.size > MAX_SIZE) {
+          throw new Error('This file is too large to preview.');
+        }
+
+        const text = await blob.text();
+        const { viewer } = getFileTypeDefinition(file.type);
+        const parsed: Contents = viewer === 'csv'
+          ? { kind: 'table', table: parseCsv(text) }
+          : { kind: 'tree', value: parseStructured(text, viewer === 'yaml' ? 'yaml' : 'json') };
+        if (!cancelled) {
+          setContents(parsed);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Could not open the file');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    open();
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl bg-zinc-950 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {Icon && <Icon className={`h-4 w-4 ${definition.iconClassName}`} />}
+            {file?.name}
+          </DialogTitle>
+          <DialogDescription>
+            {contents?.kind === 'table'
+              ? `${contents.table.columns.length} columns · ${contents.table.rows.length.toLocaleString()} rows`
+              : contents
+                ? `${definition?.label} document`
+                : 'Opening file in your browser…'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[480px]">
+          {isLoading ? (
+            <div className="flex h-full items-center justify-center gap-2 text-sm text-zinc-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Parsing…
+            </div>
+          ) : error ? (
+            <div className="flex h-full items-center justify-center gap-2 text-sm text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          ) : contents?.kind === 'table' ? (
+            <CsvGrid table={contents.table} />
+          ) : contents ? (
+            <TreeView value={contents.value} />
+          ) : null}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { LogLineIndex, MAX_LINE_LENGTH, getLine, getLineLevel } from '@/lib/log/lineIndex';
+import { LogLevel } from '@/lib/log/parse';
+import { cn } from '@/lib/utils';
+
+interface LogLinesProps {
+  text: string;
+  index: LogLineIndex;
+  // Lines to show (0-based, ascending); null shows every line
+  visibleLines: Uint32Array | null;
+  wrap: boolean;
+  // Highlighted in every visible line; must have the "g" flag
+  search: RegExp | null;
+  // Line of the current search match
+  activeLine: number | null;
+  // Inclusive, 0-based
+  selection: { start: number; end: number } | null;
+  onLineNumberClick: (line: number, extend: boolean) => void;
+  // Scrolls the line into view whenever this object changes
+  scrollTarget: { line: number } | null;
+}
+
+const ROW_HEIGHT = 20;
+const OVERSCAN_ROWS = 20;
+// Browsers cap element heights (Firefox at about 17.9M px); longer logs
+// scroll proportionally instead of pixel by pixel
+const MAX_SCROLL_HEIGHT = 10_000_000;
+const MAX_HIGHLIGHTS_PER_LINE = 100;
+const TAB_SIZE = 8;
+
+const levelStyles: Record<LogLevel, string> = {
+  fatal: "text-red-300 bg-red-500/10",
+  error: "text-red-400 bg-red-500/5",
+  warn: "text-amber-300",
+  info: "text-zinc-300",
+  debug: "text-zinc-500",
+  unknown: "text-zinc-300",
+};
+
+// Rows a line takes when wrapped after `columns` characters
+const countRows = (length: number, columns: number) => Math.max(1, Math.ceil(length / columns));
+
+const highlight = (line: string, search: RegExp | null): React.ReactNode => {
+  if (!search) return line;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  search.lastIndex = 0;
+  for (let match = search.exec(line); match && parts.length < MAX_HIGHLIGHTS_PER_LINE * 2; match = search.exec(line)) {
+    if (match[0] === "") {
+      search.lastIndex++;
+      continue;
+    }
+    parts.push(line.slice(last, match.index));
+    parts.push(
+      <mark key={match.index} className="rounded-sm bg-yellow-400/30 text-inherit">{match[0]}</mark>
+    );
+    last = match.index + match[0].length;
+  }
+  parts.push(line.slice(last));
+  return parts;
+};
+
+// Virtualized, monospaced view of a log: only the rows around the viewport
+// are in the DOM. With wrapping on, row counts are computed from line
+// lengths, which is exact for monospaced text broken at any character.
+export const LogLines: React.FC<LogLinesProps> = ({
+  text,
+  index,
+  visibleLines,
+  wrap,
+  search,
+  activeLine,
+  selection,
+  onLineNumberClick,
+  scrollTarget,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [charWidth, setCharWidth] = useState(7.2);
+
+  const count = visibleLines ? visibleLines.length : index.starts.length;
+  const lineAt = (position: number) => (visibleLines ? visibleLines[position] : position);
+  const gutterWidth = Math.ceil(String(index.starts.length).length * charWidth) + 24;
+  const columns = Math.max(1, Math.floor((viewport.width - gutterWidth - 16) / charWidth));
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    if (measureRef.current) {
+      setCharWidth(measureRef.current.getBoundingClientRect().width / 100 || 7.2);
+    }
+
+    const measure = () => setViewport({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // First row of every shown line, plus the total at the end. Without
+  // wrapping every line is one row and this is not needed.
+  const rowStarts = useMemo(() => {
+    if (!wrap) return null;
+
+    const starts = new Uint32Array(count + 1);
+    for (let position = 0; position < count; position++) {
+      const line = visibleLines ? visibleLines[position] : position;
+      const end = line + 1 < index.starts.length ? index.starts[line + 1] - 1 : text.length;
+      const length = Math.min(end - index.starts[line], MAX_LINE_LENGTH);
+      starts[position + 1] = starts[position] + countRows(length, columns);
+    }
+    return starts;
+  }, [wrap, count, visibleLines, index, text, columns]);
+
+  const totalRows = rowStarts ? rowStarts[count] : count;
+  const contentHeight = totalRows * ROW_HEIGHT;
+  const scrollHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  // Maps the DOM scroll position to a position in the full content
+  const scale = scrollHeight > viewport.height && contentHeight > scrollHeight
+    ? (contentHeight - viewport.height) / (scrollHeight - viewport.height)
+    : 1;
+  const virtualTop = scrollTop * scale;
+
+  const rowOf = (position: number) => (rowStarts ? rowStarts[position] : position);
+
+  // Position of the line that contains `row`, by binary search
+  const positionAtRow = (row: number) => {
+    if (!rowStarts) return Math.min(row, count - 1);
+
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (rowStarts[middle] <= row) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+
+  const firstPosition = count === 0 ? 0 : Math.max(0, positionAtRow(Math.floor(virtualTop / ROW_HEIGHT)) - OVERSCAN_ROWS);
+  const lastPosition = count === 0
+    ? -1
+    : Math.min(count - 1, positionAtRow(Math.ceil((virtualTop + viewport.height) / ROW_HEIGHT)) + OVERSCAN_ROWS);
+
+  const scrollToLine = (line: number) => {
+    const container = containerRef.current;
+    if (!container || count === 0) return;
+
+    // The line may be filtered out; go to the closest shown line after it
+    let position = line;
+    if (visibleLines) {
+      let low = 0;
+      let high = visibleLines.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (visibleLines[middle] < line) low = middle + 1;
+        else high = middle;
+      }
+      position = low;
+    }
+
+    // A third from the top, so the lines before it give some context
+    const target = Math.max(0, rowOf(Math.min(position, count - 1)) * ROW_HEIGHT - container.clientHeight / 3);
+    container.scrollTop = target / scale;
+  };
+  // Read by the effect below, which must only run when the target changes
+  const scrollToLineRef = useRef(scrollToLine);
+  scrollToLineRef.current = scrollToLine;
+
+  useEffect(() => {
+    if (scrollTarget) scrollToLineRef.current(scrollTarget.line);
+  }, [scrollTarget]);
+
+  const rows: React.ReactNode[] = [];
+  for (let position = firstPosition; position <= lastPosition; position++) {
+    const line = lineAt(position);
+    const level = getLineLevel(index, line);
+    const isSelected = !!selection && line >= selection.start && line <= selection.end;
+
+    rows.push(
+      <div
+        key={line}
+        className={cn(
+          "flex",
+          levelStyles[level],
+          isSelected && "bg-blue-500/15",
+          line === activeLine && "bg-yellow-500/15 ring-1 ring-inset ring-yellow-500/40"
+        )}
+        style={{ minHeight: ROW_HEIGHT }}
+      >
+        <button
+          type="button"
+          className={cn(
+            "sticky left-0 flex-shrink-0 select-none bg-zinc-950 pr-3 text-right text-zinc-600 hover:text-zinc-300",
+            isSelected && "text-blue-300"
+          )}
+          style={{ width: gutterWidth }}
+          onClick={(e) => onLineNumberClick(line, e.shiftKey)}
+          title="Select line (Shift-click to select a range)"
+        >
+          {line + 1}
+        </button>
+        <span className={cn("pr-4", wrap ? "min-w-0 flex-1 whitespace-pre-wrap break-all" : "whitespace-pre")}>
+          {highlight(getLine(text, index, line), search)}
+        </span>
+      </div>
+    );
+  }
+
+  // Rendered rows start at the first row's offset from the virtual top
+  const top = scrollTop + (rowOf(firstPosition) * ROW_HEIGHT - virtualTop);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-full overflow-auto bg-zinc-950 font-mono text-xs leading-5"
+      style={{ tabSize: TAB_SIZE }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <span ref={measureRef} className="invisible absolute whitespace-pre" aria-hidden>
+        {"0".repeat(100)}
+      </span>
+      <div
+        style={{
+          height: scrollHeight,
+          width: wrap ? "100%" : gutterWidth + index.maxLength * charWidth + 16,
+        }}
+      />
+      <div className="absolute left-0 min-w-full" style={{ top, width: wrap ? "100%" : undefined }}>
+        {rows}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CsvTable, compareCells } from '@/lib/structured/csv';
+import { cn } from '@/lib/utils';
+
+interface CsvGridProps {
+  table: CsvTable;
+}
+
+// Rows rendered at a time; more are added on request
+const ROWS_PAGE_SIZE = 200;
+const ALL_COLUMNS = 'all';
+
+type SortState = { column: number; direction: 'asc' | 'desc' } | null;
+
+// Sortable, filterable grid of a CSV file. Clicking a header cycles its sort
+// between ascending, descending and file order.
+export const CsvGrid: React.FC<CsvGridProps> = ({ table }) => {
+  const [filter, setFilter] = useState('');
+  const [filterColumn, setFilterColumn] = useState<string>(ALL_COLUMNS);
+  const [sort, setSort] = useState<SortState>(null);
+  const [shownRows, setShownRows] = useState(ROWS_PAGE_SIZE);
+
+  useEffect(() => {
+    setFilter('');
+    setFilterColumn(ALL_COLUMNS);
+    setSort(null);
+  }, [table]);
+
+  useEffect(() => {
+    setShownRows(ROWS_PAGE_SIZE);
+  }, [table, filter, filterColumn, sort]);
+
+  const rows = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const column = filterColumn === ALL_COLUMNS ? null : Number(filterColumn);
+    const filtered = needle
+      ? table.rows.filter(row =>
+          column === null
+            ? row.some(cell => cell.toLowerCase().includes(needle))
+            : row[column].toLowerCase().includes(needle)
+        )
+      : table.rows;
+
+    if (!sort) return filtered;
+
+    // Array.prototype.sort is stable, so ties keep their file order
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    return [...filtered].sort((a, b) => direction * compareCells(a[sort.column], b[sort.column]));
+  }, [table, filter, filterColumn, sort]);
+
+  const toggleSort = (column: number) => {
+    setSort(prev => {
+      if (!prev || prev.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const SortIcon = ({ column }: { column: number }) => {
+    if (sort?.column !== column) return <ArrowUpDown className="h-3 w-3 opacity-40" />;
+    return sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-3.5 w-3.5 text-zinc-500" />
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter rows"
+            className="h-8 bg-zinc-900 pl-8 text-xs"
+          />
+        </div>
+        <Select value={filterColumn} onValueChange={setFilterColumn}>
+          <SelectTrigger className="h-8 w-44 bg-zinc-900 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COLUMNS}>All columns</SelectItem>
+            {table.columns.map((column, index) => (
+              <SelectItem key={index} value={String(index)}>{column}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-zinc-500">
+          {rows.length === table.rows.length
+            ? `${table.rows.length.toLocaleString()} rows`
+            : `${rows.length.toLocaleString()} of ${table.rows.length.toLocaleString()} rows`}
+        </span>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-auto rounded-md border border-zinc-800">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow className="border-zinc-800 hover:bg-transparent">
+              {table.columns.map((column, index) => (
+                <TableHead key={index} className="h-8 whitespace-nowrap px-3">
+                  <button
+                    type="button"
+                    className={cn("flex items-center gap-1 hover:text-white", sort?.column === index && "text-white")}
+                    onClick={() => toggleSort(index)}
+                  >
+                    {column}
+                    <SortIcon column={index} />
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.slice(0, shownRows).map((row, rowIndex) => (
+              <TableRow key={rowIndex} className="border-zinc-800/60">
+                {row.map((cell, cellIndex) => (
+                  <TableCell key={cellIndex} className="max-w-xs truncate px-3 py-1.5 font-mono" title={cell}>
+                    {cell}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {rows.length === 0 && (
+          <p className="p-3 text-center text-xs text-zinc-500">No rows match the filter.</p>
+        )}
+        {rows.length > shownRows && (
+          <div className="flex justify-center p-2">
+            <Button variant="ghost" size="sm" className="text-xs" onClick={() => setShownRows(prev => prev + ROWS_PAGE_SIZE)}>
+              Show {Math.min(ROWS_PAGE_SIZE, rows.length - shownRows)} more
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Copy, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { TreePath, formatPath, formatPrimitive, getChildKeys, isContainer, searchTree } from '@/lib/structured/tree';
+import { cn } from '@/lib/utils';
+
+interface TreeViewProps {
+  value: unknown;
+}
+
+// Large arrays and objects render their children in pages
+const CHILDREN_PAGE_SIZE = 200;
+// Levels expanded when a document opens
+const INITIAL_DEPTH = 2;
+const SEARCH_DEBOUNCE_MS = 200;
+
+const valueClassName = (value: unknown) => {
+  if (typeof value === 'string') return 'text-green-400';
+  if (typeof value === 'number' || typeof value === 'bigint') return 'text-sky-400';
+  if (typeof value === 'boolean') return 'text-purple-400';
+  return 'text-zinc-500';
+};
+
+const getChild = (value: unknown, key: string | number) => (value as Record<string | number, unknown>)[key];
+
+// Formatted paths of every container down to `depth` levels
+const collectPaths = (value: unknown, depth: number, path: TreePath = [], paths = new Set<string>()) => {
+  if (!isContainer(value) || depth <= 0) return paths;
+
+  paths.add(formatPath(path));
+  getChildKeys(value).forEach(key => collectPaths(getChild(value, key), depth - 1, [...path, key], paths));
+  return paths;
+};
+
+const highlight = (text: string, query: string): React.ReactNode => {
+  const index = query ? text.toLowerCase().indexOf(query.toLowerCase()) : -1;
+  if (index === -1) return text;
+
+  return (
+    <>
+      {text.slice(0, index)}
+      <mark className="rounded-sm bg-yellow-400/30 text-inherit">{text.slice(index, index + query.length)}</mark>
+      {text.slice(index + query.length)}
+    </>
+  );
+};
+
+// Collapsible view of a parsed JSON or YAML document. Searching expands the
+// branches that contain matches; every node's path can be copied.
+export const TreeView: React.FC<TreeViewProps> = ({ value }) => {
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState<Set<string>>(() => collectPaths(value, INITIAL_DEPTH));
+  // Children shown per container, when more than one page
+  const [shownChildren, setShownChildren] = useState<Record<string, number>>({});
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    setExpanded(collectPaths(value, INITIAL_DEPTH));
+    setShownChildren({});
+    setSelectedPath(null);
+  }, [value]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const search = useMemo(() => searchTree(value, debouncedQuery), [value, debouncedQuery]);
+  const matches = useMemo(() => new Set(search.matches), [search]);
+
+  // Reveal every match when the search changes
+  useEffect(() => {
+    if (search.ancestors.size > 0) {
+      setExpanded(prev => new Set([...prev, ...search.ancestors]));
+    }
+  }, [search]);
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const copyPath = async (path: string) => {
+    await navigator.clipboard.writeText(path);
+    toast({
+      title: "Path copied",
+      description: path,
+    });
+  };
+
+  const renderNode = (node: unknown, path: TreePath, depth: number): React.ReactNode => {
+    const formatted = formatPath(path);
+    const key = path[path.length - 1];
+    const container = isContainer(node) && !(node instanceof Date);
+    const isOpen = container && expanded.has(formatted);
+    const childKeys = container ? getChildKeys(node) : [];
+    const limit = shownChildren[formatted] ?? CHILDREN_PAGE_SIZE;
+
+    return (
+      <div key={formatted}>
+        <div
+          className={cn(
+            "group flex items-center gap-1 rounded px-2 py-0.5 font-mono text-xs hover:bg-zinc-800/60",
+            selectedPath === formatted && "bg-zinc-800",
+            matches.has(formatted) && "ring-1 ring-inset ring-yellow-500/40"
+          )}
+          style={{ paddingLeft: `${depth * 14 + 8}px` }}
+          onClick={() => {
+            setSelectedPath(formatted);
+            if (container) toggle(formatted);
+          }}
+        >
+          {container ? (
+            isOpen ? <ChevronDown className="h-3 w-3 flex-shrink-0 text-zinc-500" /> : <ChevronRight className="h-3 w-3 flex-shrink-0 text-zinc-500" />
+          ) : (
+            <span className="w-3 flex-shrink-0" />
+          )}
+          {key !== undefined && (
+            <span className={typeof key === 'number' ? 'text-zinc-500' : 'text-zinc-200'}>
+              {highlight(String(key), debouncedQuery)}
+              <span className="text-zinc-500">:</span>
+            </span>
+          )}
+          {container ? (
+            <span className="text-zinc-500">
+              {Array.isArray(node) ? `[${childKeys.length}]` : `{${childKeys.length}}`}
+            </span>
+          ) : (
+            <span className={cn("min-w-0 truncate", valueClassName(node))}>
+              {highlight(formatPrimitive(node), debouncedQuery)}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto h-5 w-5 flex-shrink-0 opacity-0 group-hover:opacity-100"
+            onClick={(e) => {
+              e.stopPropagation();
+              copyPath(formatted);
+            }}
+            title="Copy path"
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+        {isOpen && childKeys.slice(0, limit).map(child => renderNode(getChild(node, child), [...path, child], depth + 1))}
+        {isOpen && childKeys.length > limit && (
+          <button
+            type="button"
+            className="py-0.5 text-xs text-blue-400 hover:underline"
+            style={{ paddingLeft: `${(depth + 1) * 14 + 24}px` }}
+            onClick={() => setShownChildren(prev => ({ ...prev, [formatted]: limit + CHILDREN_PAGE_SIZE }))}
+          >
+            Show {Math.min(CHILDREN_PAGE_SIZE, childKeys.length - limit)} more of {childKeys.length - limit} remaining
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-3.5 w-3.5 text-zinc-500" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search keys and values"
+            className="h-8 bg-zinc-900 pl-8 text-xs"
+          />
+        </div>
+        {debouncedQuery && (
+          <span className="text-xs text-zinc-500">
+            {search.matches.length} {search.matches.length === 1 ? 'match' : 'matches'}
+          </span>
+        )}
+        <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setExpanded(collectPaths(value, Infinity))}>
+          Expand all
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setExpanded(new Set())}>
+          Collapse all
+        </Button>
+      </div>
+      <ScrollArea className="min-h-0 flex-1 rounded-md border border-zinc-800 py-1">
+        {renderNode(value, [], 0)}
+      </ScrollArea>
+      {selectedPath && (
+        <div className="flex items-center gap-2 text-xs text-zinc-400">
+          <span className="min-w-0 truncate font-mono">{selectedPath}</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0" onClick={() => copyPath(selectedPath)} title="Copy path">
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -19,6 +19,11 @@ export function useInfiniteScroll<T>({
   const [error, setError] = useState<Error | null>(null);
   const loaderRef = useRef<HTMLDivElement>(null);
   const isFetchingRef = useRef(false);
+  // Read by loadMore, which may run in the same render as reset(), before
+  // the page state has caught up
+  const pageRef = useRef(initialPage);
+  // Bumped by reset() so responses for the previous listing are dropped
+  const generationRef = useRef(0);
   
   const loadMore = useCallback(async (fetchFn: (page: number) => Promise<{ data: T[], totalCount: number, pageSize: number }>) => {
     if (isFetchingRef.current) {
@@ -26,6 +31,9 @@ export function useInfiniteScroll<T>({
       return;
     }
     
+    const page = pageRef.current;
+    const generation = generationRef.current;
+    
     try {
       isFetchingRef.current = true;
       setIsLoading(true);
@@ -34,6 +42,11 @@ export function useInfiniteScroll<T>({
       console.log(`Executing fetch for page ${page}`);
       const result = await fetchFn(page);
       
+      if (generation !== generationRef.current) {
+        console.log(`Dropping page ${page} of a listing that was reset`);
+        return;
+      }
+      
       // Only update items if we got valid data
       if (Array.isArray(result.data)) {
         setItems(prevItems => {
@@ -57,7 +70,8 @@ export function useInfiniteScroll<T>({
         
         // Increment page for next fetch
         if (hasMoreItems) {
-          setPage(prevPage => prevPage + 1);
+          pageRef.current = page + 1;
+          setPage(page + 1);
         }
       } else {
         console.warn("Invalid data format received:", result.data);
@@ -66,16 +80,21 @@ export function useInfiniteScroll<T>({
       console.error("Error loading items:", err);
       setError(err instanceof Error ? err : new Error('An error occurred while loading more items'));
     } finally {
-      setIsLoading(false);
-      // Use setTimeout to prevent immediate re-triggering
-      setTimeout(() => {
-        isFetchingRef.current = false;
-      }, 100);
+      // A reset has already handed the loading state to the new listing
+      if (generation === generationRef.current) {
+        setIsLoading(false);
+        // Use setTimeout to prevent immediate re-triggering
+        setTimeout(() => {
+          isFetchingRef.current = false;
+        }, 100);
+      }
     }
-  }, [page, initialPage, items.length]);
+  }, [initialPage, items.length]);
   
   const reset = useCallback(() => {
     console.log("Resetting infinite scroll state");
+    generationRef.current++;
+    pageRef.current = initialPage;
     setItems([]);
     setPage(initialPage);
     setHasMore(true);
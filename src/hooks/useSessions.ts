@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import {
+  createSession,
+  deleteSession,
+  getSessionsState,
+  loadSessions,
+  renameSession,
+  saveSessionMessages,
+  SessionsState,
+  subscribeToSessions
+} from '@/services/sessionService';
+
+export function useSessions() {
+  const [state, setState] = useState<SessionsState>(getSessionsState);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSessions(setState);
+    loadSessions();
+    return unsubscribe;
+  }, []);
+
+  return {
+    ...state,
+    create: createSession,
+    saveMessages: saveSessionMessages,
+    rename: renameSession,
+    remove: deleteSession
+  };
+}
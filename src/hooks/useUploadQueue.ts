@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import {
+  cancelUpload,
+  clearFinishedUploads,
+  enqueueUpload,
+  getUploadQueueState,
+  removeUpload,
+  retryUpload,
+  setUploadConcurrency,
+  subscribeToUploadQueue,
+  UploadQueueState
+} from '@/services/uploadQueue';
+import { FileUploadStatus, isUploadActive } from '@/types/file';
+
+export function useUploadQueue() {
+  const [state, setState] = useState<UploadQueueState>(getUploadQueueState);
+
+  useEffect(() => subscribeToUploadQueue(setState), []);
+
+  const activeJobs = state.jobs.filter(job =>
+    job.file.status === FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED || isUploadActive(job.file.status)
+  );
+  const failedJobs = state.jobs.filter(job => job.file.status === FileUploadStatus.FILE_UPLOAD_STATUS_FAILED);
+
+  return {
+    ...state,
+    activeJobs,
+    failedJobs,
+    enqueue: enqueueUpload,
+    cancel: cancelUpload,
+    retry: retryUpload,
+    remove: removeUpload,
+    clearFinished: clearFinishedUploads,
+    setConcurrency: setUploadConcurrency
+  };
+}
@@ -0,0 +1,63 @@
+import type { ArchiveRequest, ArchiveResponse } from "@/workers/archiveWorker"
+import type { ArchiveEntry, ArchiveFormat } from "./index"
+import { handleWorkerFailure } from "@/lib/workerFailure"
+
+// Distributes Omit over the request union so each variant keeps its fields
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, { resolve: (response: ArchiveResponse) => void; reject: (error: Error) => void }>()
+
+const getWorker = () => {
+  if (worker) return worker
+
+  worker = new Worker(new URL("../../workers/archiveWorker.ts", import.meta.url), { type: "module" })
+  worker.onmessage = (event: MessageEvent<ArchiveResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+
+    pending.delete(response.id)
+    if (response.type === "error") {
+      request.reject(new Error(response.message))
+    } else {
+      request.resolve(response)
+    }
+  }
+
+  handleWorkerFailure(worker, "archive", pending, () => {
+    worker = null
+  })
+
+  return worker
+}
+
+const send = (request: DistributiveOmit<ArchiveRequest, "id">): Promise<ArchiveResponse> => {
+  const id = nextId++
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    getWorker().postMessage({ ...request, id })
+  })
+}
+
+// Decompress and list an archive in the worker. archiveId identifies it for
+// later extractArchiveEntry calls.
+export async function listArchive(
+  archiveId: string,
+  name: string,
+  blob: Blob
+): Promise<{ format: ArchiveFormat; entries: ArchiveEntry[] }> {
+  const response = await send({ type: "list", archiveId, name, blob })
+  if (response.type !== "list") throw new Error("Unexpected archive worker response")
+
+  return { format: response.format, entries: response.entries }
+}
+
+export async function extractArchiveEntry(archiveId: string, path: string): Promise<Uint8Array> {
+  const response = await send({ type: "extract", archiveId, path })
+  if (response.type !== "extract") throw new Error("Unexpected archive worker response")
+
+  return response.data
+}
@@ -0,0 +1,38 @@
+// Thrown when decompressing would produce more than the allowed bytes, so a
+// small archive cannot inflate into something that exhausts memory
+export class DecompressionLimitError extends Error {
+  constructor(maxBytes: number) {
+    super(`Decompressed data is larger than ${Math.round(maxBytes / (1024 * 1024))} MB`)
+    this.name = "DecompressionLimitError"
+  }
+}
+
+export async function decompress(
+  bytes: Uint8Array,
+  format: CompressionFormat,
+  maxBytes = Infinity
+): Promise<Uint8Array> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format)).getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    total += value.length
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw new DecompressionLimitError(maxBytes)
+    }
+    chunks.push(value)
+  }
+
+  const output = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.length
+  }
+  return output
+}
@@ -0,0 +1,86 @@
+import { parseTar } from "./tar"
+import { extractZipEntry, parseZip } from "./zip"
+import { decompress } from "./decompress"
+
+export { DecompressionLimitError } from "./decompress"
+
+export type ArchiveFormat = "tar" | "tar.gz" | "gzip" | "zip"
+
+export interface ArchiveEntry {
+  path: string
+  size: number
+  // Milliseconds since epoch
+  mtime: number
+  isDirectory: boolean
+}
+
+export interface OpenArchive {
+  format: ArchiveFormat
+  entries: ArchiveEntry[]
+  extract: (path: string) => Promise<Uint8Array>
+}
+
+export const isGzip = (bytes: Uint8Array) => bytes[0] === 0x1f && bytes[1] === 0x8b
+
+export const isZip = (bytes: Uint8Array) =>
+  bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04
+
+// ustar magic lives at offset 257 of the first header block
+export const isTar = (bytes: Uint8Array) =>
+  bytes.length >= 262 && new TextDecoder().decode(bytes.subarray(257, 262)) === "ustar"
+
+// Rejects with a DecompressionLimitError past `maxBytes` of output
+export function gunzip(bytes: Uint8Array, maxBytes?: number): Promise<Uint8Array> {
+  return decompress(bytes, "gzip", maxBytes)
+}
+
+export async function gzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("gzip"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Detect the container format from magic bytes and list its contents.
+// `maxBytes` caps what decompression may produce: the whole tar of a
+// .tar.gz, or each extracted zip entry (DecompressionLimitError past it).
+export async function openArchive(bytes: Uint8Array, name: string, maxBytes?: number): Promise<OpenArchive> {
+  if (isZip(bytes)) {
+    const entries = parseZip(bytes)
+    return {
+      format: "zip",
+      entries,
+      extract: async (path) => {
+        const entry = entries.find((e) => e.path === path)
+        if (!entry) throw new Error(`"${path}" is not in the archive`)
+        return extractZipEntry(bytes, entry, maxBytes)
+      },
+    }
+  }
+
+  const compressed = isGzip(bytes)
+  const data = compressed ? await gunzip(bytes, maxBytes) : bytes
+
+  if (isTar(data)) {
+    const entries = parseTar(data)
+    return {
+      format: compressed ? "tar.gz" : "tar",
+      entries,
+      extract: async (path) => {
+        const entry = entries.find((e) => e.path === path)
+        if (!entry) throw new Error(`"${path}" is not in the archive`)
+        return data.subarray(entry.offset, entry.offset + entry.size)
+      },
+    }
+  }
+
+  if (compressed) {
+    // A single gzipped file, e.g. syslog.1.gz
+    const innerName = name.replace(/\.gz$/i, "") || "contents"
+    return {
+      format: "gzip",
+      entries: [{ path: innerName, size: data.length, mtime: 0, isDirectory: false }],
+      extract: async () => data,
+    }
+  }
+
+  throw new Error("Unsupported archive format")
+}
@@ -0,0 +1,173 @@
+export interface TarEntry {
+  path: string
+  size: number
+  // Milliseconds since epoch
+  mtime: number
+  isDirectory: boolean
+  // Byte offset of the entry data inside the tar
+  offset: number
+}
+
+export interface TarInput {
+  path: string
+  data: Uint8Array
+  mtime?: number
+}
+
+const BLOCK_SIZE = 512
+const decoder = new TextDecoder()
+const encoder = new TextEncoder()
+
+const readString = (bytes: Uint8Array, start: number, length: number) => {
+  const field = bytes.subarray(start, start + length)
+  const end = field.indexOf(0)
+  return decoder.decode(end === -1 ? field : field.subarray(0, end))
+}
+
+const readOctal = (bytes: Uint8Array, start: number, length: number) => {
+  const value = readString(bytes, start, length).trim()
+  return value ? parseInt(value, 8) : 0
+}
+
+const isZeroBlock = (bytes: Uint8Array, offset: number) => {
+  for (let i = offset; i < offset + BLOCK_SIZE; i++) {
+    if (bytes[i] !== 0) return false
+  }
+  return true
+}
+
+// pax extended headers are "<length> <key>=<value>\n" records
+const parsePax = (data: Uint8Array): Record<string, string> => {
+  const records: Record<string, string> = {}
+  const text = decoder.decode(data)
+  let offset = 0
+
+  while (offset < text.length) {
+    const space = text.indexOf(" ", offset)
+    if (space === -1) break
+    const length = parseInt(text.slice(offset, space), 10)
+    if (!length) break
+    const record = text.slice(space + 1, offset + length - 1)
+    const equals = record.indexOf("=")
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1)
+    }
+    offset += length
+  }
+
+  return records
+}
+
+// List the entries of an uncompressed tar (ustar, GNU long names and pax)
+export function parseTar(bytes: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = []
+  let offset = 0
+  let longName: string | null = null
+  let pax: Record<string, string> = {}
+
+  while (offset + BLOCK_SIZE <= bytes.length) {
+    if (isZeroBlock(bytes, offset)) break
+
+    const size = readOctal(bytes, offset + 124, 12)
+    const typeFlag = String.fromCharCode(bytes[offset + 156] || 48)
+    const dataOffset = offset + BLOCK_SIZE
+    const data = bytes.subarray(dataOffset, dataOffset + size)
+    offset = dataOffset + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+
+    if (typeFlag === "L") {
+      longName = readString(data, 0, data.length)
+      continue
+    }
+    if (typeFlag === "x") {
+      pax = parsePax(data)
+      continue
+    }
+    if (typeFlag === "g") continue
+
+    const name = readString(bytes, dataOffset - BLOCK_SIZE, 100)
+    const prefix = readString(bytes, dataOffset - BLOCK_SIZE + 345, 155)
+    const path = pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name)
+    const mtime = pax.mtime ? parseFloat(pax.mtime) : readOctal(bytes, dataOffset - BLOCK_SIZE + 136, 12)
+
+    longName = null
+    pax = {}
+
+    // Only regular files and directories are of interest
+    if (typeFlag !== "0" && typeFlag !== "5" && typeFlag !== "\0") continue
+
+    entries.push({
+      path: path.replace(/^\.\//, ""),
+      size,
+      mtime: mtime * 1000,
+      isDirectory: typeFlag === "5" || path.endsWith("/"),
+      offset: dataOffset,
+    })
+  }
+
+  return entries
+}
+
+const writeString = (block: Uint8Array, value: string, start: number, length: number) => {
+  block.set(encoder.encode(value).subarray(0, length), start)
+}
+
+const writeOctal = (block: Uint8Array, value: number, start: number, length: number) => {
+  writeString(block, value.toString(8).padStart(length - 1, "0"), start, length - 1)
+}
+
+// Build an uncompressed ustar archive. Paths longer than 100 bytes use a GNU
+// long name record.
+export function createTar(files: TarInput[]): Uint8Array {
+  const blocks: Uint8Array[] = []
+
+  const header = (path: string, size: number, mtime: number, typeFlag: string) => {
+    const block = new Uint8Array(BLOCK_SIZE)
+    writeString(block, path, 0, 100)
+    writeOctal(block, typeFlag === "5" ? 0o755 : 0o644, 100, 8)
+    writeOctal(block, 0, 108, 8)
+    writeOctal(block, 0, 116, 8)
+    writeOctal(block, size, 124, 12)
+    writeOctal(block, Math.floor(mtime / 1000), 136, 12)
+    block.fill(32, 148, 156)
+    writeString(block, typeFlag, 156, 1)
+    writeString(block, "ustar", 257, 6)
+    writeString(block, "00", 263, 2)
+
+    let checksum = 0
+    for (const byte of block) checksum += byte
+    writeString(block, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8)
+    return block
+  }
+
+  const pushData = (data: Uint8Array) => {
+    const padded = new Uint8Array(Math.ceil(data.length / BLOCK_SIZE) * BLOCK_SIZE)
+    padded.set(data)
+    blocks.push(padded)
+  }
+
+  for (const file of files) {
+    const mtime = file.mtime ?? Date.now()
+    const pathBytes = encoder.encode(file.path)
+
+    if (pathBytes.length > 100) {
+      const longName = encoder.encode(file.path + "\0")
+      blocks.push(header("././@LongLink", longName.length, mtime, "L"))
+      pushData(longName)
+    }
+
+    // Paths ending in "/" are directories
+    blocks.push(header(file.path, file.data.length, mtime, file.path.endsWith("/") ? "5" : "0"))
+    pushData(file.data)
+  }
+
+  // Two zero blocks mark the end of the archive
+  blocks.push(new Uint8Array(BLOCK_SIZE * 2))
+
+  const tar = new Uint8Array(blocks.reduce((total, block) => total + block.length, 0))
+  let offset = 0
+  for (const block of blocks) {
+    tar.set(block, offset)
+    offset += block.length
+  }
+  return tar
+}
@@ -0,0 +1,205 @@
+import { decompress } from "./decompress"
+
+export interface ZipEntry {
+  path: string
+  size: number
+  compressedSize: number
+  // Milliseconds since epoch
+  mtime: number
+  isDirectory: boolean
+  // 0 = stored, 8 = deflate
+  method: number
+  localHeaderOffset: number
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const decoder = new TextDecoder()
+
+// MS-DOS packed date/time, local time with two second resolution
+const fromDosDateTime = (date: number, time: number) =>
+  new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime()
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  // The record is 22 bytes plus a comment of up to 64KB
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff)
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  return -1
+}
+
+// List a zip archive from its central directory. Zip64 archives are not
+// supported.
+export function parseZip(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const eocd = findEndOfCentralDirectory(view)
+  if (eocd === -1) {
+    throw new Error("Not a zip archive")
+  }
+
+  const count = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt zip central directory")
+    }
+
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+
+    entries.push({
+      path,
+      method: view.getUint16(offset + 10, true),
+      mtime: fromDosDateTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true)),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      isDirectory: path.endsWith("/"),
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+export async function extractZipEntry(bytes: Uint8Array, entry: ZipEntry, maxBytes?: number): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const offset = entry.localHeaderOffset
+  if (view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt zip entry "${entry.path}"`)
+  }
+
+  const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true)
+  const data = bytes.subarray(start, start + entry.compressedSize)
+
+  switch (entry.method) {
+    case 0:
+      return data
+    case 8:
+      return decompress(data, "deflate-raw", maxBytes)
+    default:
+      throw new Error(`Unsupported zip compression method ${entry.method}`)
+  }
+}
+
+export interface ZipInput {
+  path: string
+  data: Uint8Array
+  mtime?: number
+}
+
+let crcTable: Uint32Array | null = null
+
+const crc32 = (data: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const toDosDateTime = (mtime: number) => {
+  const date = new Date(mtime)
+  return {
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  }
+}
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const encoder = new TextEncoder()
+
+// Build a deflate-compressed zip archive. Like parseZip, no Zip64 support.
+export async function createZip(files: ZipInput[]): Promise<Uint8Array> {
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.path)
+    const isDirectory = file.path.endsWith("/")
+    const compressed = isDirectory ? file.data : await deflateRaw(file.data)
+    const method = isDirectory ? 0 : 8
+    const crc = crc32(file.data)
+    const { date, time } = toDosDateTime(file.mtime ?? Date.now())
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, LOCAL_FILE_HEADER, true)
+    localView.setUint16(4, 20, true)
+    // Bit 11: file names are UTF-8
+    localView.setUint16(6, 0x0800, true)
+    localView.setUint16(8, method, true)
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, date, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, compressed.length, true)
+    localView.setUint32(22, file.data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+    centralView.setUint16(4, 20, true)
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, 0x0800, true)
+    centralView.setUint16(10, method, true)
+    centralView.setUint16(12, time, true)
+    centralView.setUint16(14, date, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, compressed.length, true)
+    centralView.setUint32(24, file.data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, compressed)
+    centralParts.push(central)
+    offset += local.length + compressed.length
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  endView.setUint16(8, files.length, true)
+  endView.setUint16(10, files.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, end]
+  const zip = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    zip.set(part, position)
+    position += part.length
+  }
+  return zip
+}
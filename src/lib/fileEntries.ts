@@ -0,0 +1,53 @@
+export interface DroppedFile {
+  file: File
+  // Path relative to the dropped item, e.g. "log/nginx/access.log"
+  path: string
+}
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject))
+
+const getFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject))
+
+async function collectEntry(entry: FileSystemEntry, files: DroppedFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await getFile(entry as FileSystemFileEntry)
+    files.push({ file, path: entry.fullPath.replace(/^\//, "") })
+    return
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader()
+    // readEntries returns directory contents in batches until it yields none
+    let batch = await readEntries(reader)
+    while (batch.length > 0) {
+      for (const child of batch) {
+        await collectEntry(child, files)
+      }
+      batch = await readEntries(reader)
+    }
+  }
+}
+
+// Flatten everything dropped onto a drop zone, walking into directories via
+// webkitGetAsEntry. Falls back to the plain file list when entries are not
+// supported by the browser.
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<DroppedFile[]> {
+  // Entries have to be grabbed synchronously, the DataTransfer is emptied
+  // as soon as the drop handler yields
+  const entries = Array.from(dataTransfer.items ?? [])
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry)
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }))
+  }
+
+  const files: DroppedFile[] = []
+  for (const entry of entries) {
+    await collectEntry(entry, files)
+  }
+  return files
+}
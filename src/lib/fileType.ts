@@ -0,0 +1,118 @@
+import { FILE_TYPE, FILE_TYPE_REGISTRY, findFileTypeByMimeType, findFileTypeByName } from "./fileTypeRegistry"
+import { parseTimestamp } from "./log/timestamp"
+
+// Browsers report an empty or vendor-specific MIME type for most diagnostics
+// files (.log, .yaml, often .tgz), so the canonical type from the registry is
+// worked out from the bytes and the file name instead.
+
+// How many bytes are read from the start of a file for sniffing
+const SAMPLE_SIZE = 8 * 1024
+
+export function getFileTypeFromName(name: string): string | undefined {
+  return findFileTypeByName(name)?.mimeType
+}
+
+// Synchronous best guess from the name and browser MIME type, used until
+// detectFileType has looked at the contents
+export function guessFileType(name: string, browserType = ""): string {
+  return getFileTypeFromName(name) ?? findFileTypeByMimeType(browserType)?.mimeType ?? (browserType || FILE_TYPE.BINARY)
+}
+
+const isTextType = (mimeType: string) => findFileTypeByMimeType(mimeType)?.binary === false
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte)
+
+function sniffMagicBytes(bytes: Uint8Array): string | undefined {
+  return FILE_TYPE_REGISTRY.find(definition =>
+    definition.signatures?.some(signature => startsWith(bytes, signature.bytes, signature.offset))
+  )?.mimeType
+}
+
+// Text is mostly printable and never contains NUL bytes
+function isText(bytes: Uint8Array): boolean {
+  if (bytes.length === 0) return true
+
+  let control = 0
+  for (const byte of bytes) {
+    if (byte === 0) return false
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) control++
+  }
+  return control / bytes.length < 0.02
+}
+
+const isJsonValue = (text: string) => {
+  try {
+    JSON.parse(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Classify a text sample. `complete` is false when the sample is only the
+// start of a longer file, so the last line may be cut off.
+export function sniffText(sample: string, complete: boolean): string | undefined {
+  const trimmed = sample.trim()
+  if (!trimmed) return undefined
+
+  const lines = trimmed.split(/\r?\n/)
+  // The last line of a truncated sample is probably cut off
+  const fullLines = complete || lines.length === 1 ? lines : lines.slice(0, -1)
+  const contentLines = fullLines.filter(line => line.trim() !== "")
+
+  const jsonLines = contentLines.filter(line => /^\s*[{[]/.test(line) && isJsonValue(line))
+  if (contentLines.length >= 2 && jsonLines.length === contentLines.length) {
+    return FILE_TYPE.JSON_LINES
+  }
+
+  if (/^[{[]/.test(trimmed) && (complete ? isJsonValue(trimmed) : /^(\{\s*"|\[\s*[{["\d\-tfn\]])/.test(trimmed))) {
+    return FILE_TYPE.JSON
+  }
+
+  // Checked before logs, as metrics exports usually start with a timestamp
+  // column. Log lines rarely have the same number of commas on every line.
+  if (contentLines.length >= 2) {
+    const columns = contentLines.slice(0, 20).map(line => line.split(",").length)
+    if (columns[0] > 1 && columns.every(count => count === columns[0])) {
+      return FILE_TYPE.CSV
+    }
+  }
+
+  // Stack trace continuation lines do not start with a timestamp, so only
+  // a share of the lines has to match
+  const timestamped = contentLines.filter(line => parseTimestamp(line) !== null)
+  if (timestamped.length >= Math.max(1, contentLines.length * 0.5)) {
+    return FILE_TYPE.LOG
+  }
+
+  const yamlLines = contentLines.filter(line => !/^\s*#/.test(line))
+  const yamlish = yamlLines.filter(line =>
+    line === "---" || /^\s*[\w.\-"']+:(\s|$)/.test(line) || /^\s*- /.test(line)
+  )
+  if (yamlLines.length > 0 && yamlish.length >= yamlLines.length * 0.8 && yamlLines.some(line => /^[\w.\-"']+:/.test(line))) {
+    return FILE_TYPE.YAML
+  }
+
+  return undefined
+}
+
+// Work out the canonical type from the first bytes of a file: magic bytes
+// first, then text heuristics, then the file extension
+export async function detectFileType(blob: Blob, name: string): Promise<string> {
+  const bytes = new Uint8Array(await blob.slice(0, SAMPLE_SIZE).arrayBuffer())
+
+  const magic = sniffMagicBytes(bytes)
+  if (magic) return magic
+
+  const fromName = guessFileType(name, blob.type)
+  if (!isText(bytes)) {
+    return isTextType(fromName) ? FILE_TYPE.BINARY : fromName
+  }
+
+  const sniffed = sniffText(new TextDecoder().decode(bytes), blob.size <= SAMPLE_SIZE)
+  if (sniffed) return sniffed
+
+  // e.g. a single column .csv or an empty .yaml
+  return isTextType(fromName) ? fromName : FILE_TYPE.TEXT
+}
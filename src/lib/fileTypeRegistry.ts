@@ -0,0 +1,243 @@
+import {
+  File,
+  FileArchive,
+  FileCode,
+  FileJson,
+  FileSpreadsheet,
+  FileText,
+  LucideIcon,
+  Network,
+  ScrollText,
+} from "lucide-react"
+
+// Every diagnostic file type the UI knows about. Labels, colours, icons,
+// viewers, detection rules and accepted extensions all come from here, so
+// supporting a new format is a single entry in FILE_TYPE_REGISTRY.
+
+export const FILE_TYPE = {
+  GZIP: "application/gzip",
+  ZIP: "application/zip",
+  TAR: "application/x-tar",
+  PDF: "application/pdf",
+  PCAP: "application/vnd.tcpdump.pcap",
+  JSON: "application/json",
+  JSON_LINES: "application/x-ndjson",
+  YAML: "application/yaml",
+  CSV: "text/csv",
+  LOG: "text/x-log",
+  TEXT: "text/plain",
+  BINARY: "application/octet-stream",
+} as const
+
+// Which viewer the Eye button opens
+export type FileViewer = "archive" | "log" | "json" | "yaml" | "csv" | "text" | "none"
+
+// How the contents are parsed for analysis and search
+export type FileParser = "archive" | "json" | "json-lines" | "yaml" | "csv" | "log" | "text" | "none"
+
+export interface FileSignature {
+  bytes: number[]
+  offset?: number
+}
+
+export interface FileTypeDefinition {
+  mimeType: string
+  label: string
+  icon: LucideIcon
+  // Tailwind classes for the type badge and the file icon
+  badgeClassName: string
+  iconClassName: string
+  viewer: FileViewer
+  parser: FileParser
+  // Lower-case, with the leading dot
+  extensions: string[]
+  // Other MIME types browsers report for the same format
+  aliases?: string[]
+  // Magic bytes at the start of the file
+  signatures?: FileSignature[]
+  binary: boolean
+}
+
+export const FILE_TYPE_REGISTRY: FileTypeDefinition[] = [
+  {
+    mimeType: FILE_TYPE.GZIP,
+    label: "Archive",
+    icon: FileArchive,
+    badgeClassName: "bg-amber-500/20 text-amber-500 hover:bg-amber-500/30",
+    iconClassName: "text-amber-400",
+    viewer: "archive",
+    parser: "archive",
+    extensions: [".tar.gz", ".tgz", ".gz"],
+    aliases: ["application/x-gzip", "application/x-compressed-tar"],
+    signatures: [{ bytes: [0x1f, 0x8b] }],
+    binary: true,
+  },
+  {
+    mimeType: FILE_TYPE.ZIP,
+    label: "Zip",
+    icon: FileArchive,
+    badgeClassName: "bg-orange-500/20 text-orange-500 hover:bg-orange-500/30",
+    iconClassName: "text-orange-400",
+    viewer: "archive",
+    parser: "archive",
+    extensions: [".zip"],
+    aliases: ["application/x-zip-compressed"],
+    signatures: [{ bytes: [0x50, 0x4b, 0x03, 0x04] }, { bytes: [0x50, 0x4b, 0x05, 0x06] }],
+    binary: true,
+  },
+  {
+    mimeType: FILE_TYPE.TAR,
+    label: "Tar",
+    icon: FileArchive,
+    badgeClassName: "bg-orange-500/20 text-orange-500 hover:bg-orange-500/30",
+    iconClassName: "text-orange-400",
+    viewer: "archive",
+    parser: "archive",
+    extensions: [".tar"],
+    // "ustar" inside the first header block
+    signatures: [{ bytes: [0x75, 0x73, 0x74, 0x61, 0x72], offset: 257 }],
+    binary: true,
+  },
+  {
+    mimeType: FILE_TYPE.PDF,
+    label: "PDF",
+    icon: FileText,
+    badgeClassName: "bg-red-500/20 text-red-500 hover:bg-red-500/30",
+    iconClassName: "text-red-400",
+    viewer: "none",
+    parser: "none",
+    extensions: [".pdf"],
+    signatures: [{ bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }],
+    binary: true,
+  },
+  {
+    mimeType: FILE_TYPE.PCAP,
+    label: "PCAP",
+    icon: Network,
+    badgeClassName: "bg-cyan-500/20 text-cyan-500 hover:bg-cyan-500/30",
+    iconClassName: "text-cyan-400",
+    viewer: "none",
+    parser: "none",
+    extensions: [".pcap", ".pcapng", ".cap"],
+    aliases: ["application/x-pcapng"],
+    signatures: [
+      { bytes: [0xd4, 0xc3, 0xb2, 0xa1] },
+      { bytes: [0xa1, 0xb2, 0xc3, 0xd4] },
+      // pcapng section header block
+      { bytes: [0x0a, 0x0d, 0x0d, 0x0a] },
+    ],
+    binary: true,
+  },
+  {
+    mimeType: FILE_TYPE.JSON,
+    label: "JSON",
+    icon: FileJson,
+    badgeClassName: "bg-blue-500/20 text-blue-500 hover:bg-blue-500/30",
+    iconClassName: "text-blue-400",
+    viewer: "json",
+    parser: "json",
+    extensions: [".json"],
+    binary: false,
+  },
+  {
+    mimeType: FILE_TYPE.JSON_LINES,
+    label: "JSON Lines",
+    icon: FileJson,
+    badgeClassName: "bg-sky-500/20 text-sky-500 hover:bg-sky-500/30",
+    iconClassName: "text-sky-400",
+    viewer: "log",
+    parser: "json-lines",
+    extensions: [".jsonl", ".ndjson"],
+    aliases: ["application/jsonl", "application/x-jsonlines"],
+    binary: false,
+  },
+  {
+    mimeType: FILE_TYPE.YAML,
+    label: "YAML",
+    icon: FileCode,
+    badgeClassName: "bg-green-500/20 text-green-500 hover:bg-green-500/30",
+    iconClassName: "text-green-400",
+    viewer: "yaml",
+    parser: "yaml",
+    extensions: [".yaml", ".yml"],
+    aliases: ["application/x-yaml", "text/yaml", "text/x-yaml"],
+    binary: false,
+  },
+  {
+    mimeType: FILE_TYPE.CSV,
+    label: "CSV",
+    icon: FileSpreadsheet,
+    badgeClassName: "bg-purple-500/20 text-purple-500 hover:bg-purple-500/30",
+    iconClassName: "text-purple-400",
+    viewer: "csv",
+    parser: "csv",
+    extensions: [".csv"],
+    binary: false,
+  },
+  {
+    mimeType: FILE_TYPE.LOG,
+    label: "Log",
+    icon: ScrollText,
+    badgeClassName: "bg-slate-500/20 text-slate-300 hover:bg-slate-500/30",
+    iconClassName: "text-slate-300",
+    viewer: "log",
+    parser: "log",
+    extensions: [".log"],
+    binary: false,
+  },
+  {
+    mimeType: FILE_TYPE.TEXT,
+    label: "Text",
+    icon: FileText,
+    badgeClassName: "bg-gray-500/20 text-gray-500 hover:bg-gray-500/30",
+    iconClassName: "text-gray-400",
+    viewer: "text",
+    parser: "text",
+    extensions: [".txt"],
+    binary: false,
+  },
+  {
+    mimeType: FILE_TYPE.BINARY,
+    label: "Binary",
+    icon: File,
+    badgeClassName: "bg-zinc-500/20 text-zinc-400 hover:bg-zinc-500/30",
+    iconClassName: "text-zinc-400",
+    viewer: "none",
+    parser: "none",
+    extensions: [],
+    binary: true,
+  },
+]
+
+const byMimeType = new Map<string, FileTypeDefinition>()
+FILE_TYPE_REGISTRY.forEach(definition => {
+  byMimeType.set(definition.mimeType, definition)
+  definition.aliases?.forEach(alias => byMimeType.set(alias, definition))
+})
+
+// Longest extensions first so ".tar.gz" wins over ".gz"
+const byExtension = FILE_TYPE_REGISTRY
+  .flatMap(definition => definition.extensions.map(extension => ({ extension, definition })))
+  .sort((a, b) => b.extension.length - a.extension.length)
+
+export function findFileTypeByMimeType(mimeType: string): FileTypeDefinition | undefined {
+  return byMimeType.get(mimeType)
+}
+
+export function findFileTypeByName(name: string): FileTypeDefinition | undefined {
+  const lower = name.toLowerCase()
+  return byExtension.find(({ extension }) => lower.endsWith(extension))?.definition
+}
+
+// Types nobody registered still get a readable label and neutral styling
+export function getFileTypeDefinition(mimeType: string): FileTypeDefinition {
+  const definition = findFileTypeByMimeType(mimeType)
+  if (definition) return definition
+
+  return {
+    ...findFileTypeByMimeType(FILE_TYPE.BINARY)!,
+    mimeType,
+    label: mimeType.split("/")[1] || mimeType || "Unknown",
+  }
+}
+
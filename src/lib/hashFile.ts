@@ -0,0 +1,52 @@
+import type { HashResponse } from "@/workers/hashWorker"
+import { handleWorkerFailure } from "@/lib/workerFailure"
+
+interface PendingHash {
+  resolve: (hash: string) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: number) => void
+}
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, PendingHash>()
+
+// One shared worker handles every hash request, in order
+const getWorker = () => {
+  if (worker) return worker
+
+  worker = new Worker(new URL("../workers/hashWorker.ts", import.meta.url), { type: "module" })
+  worker.onmessage = (event: MessageEvent<HashResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+
+    if (response.type === "progress") {
+      request.onProgress?.(response.progress)
+      return
+    }
+
+    pending.delete(response.id)
+    if (response.type === "done") {
+      request.resolve(response.hash)
+    } else {
+      request.reject(new Error(response.message))
+    }
+  }
+
+  handleWorkerFailure(worker, "hash", pending, () => {
+    worker = null
+  })
+
+  return worker
+}
+
+// Hex-encoded SHA-256 of a whole file, computed off the main thread
+export function hashFile(blob: Blob, onProgress?: (progress: number) => void): Promise<string> {
+  const id = nextId++
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress })
+    getWorker().postMessage({ id, blob })
+  })
+}
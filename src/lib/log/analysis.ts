@@ -0,0 +1,534 @@
+import { format } from "date-fns"
+import { isGzip, isTar, isZip, openArchive } from "@/lib/archive"
+import { findFileTypeByMimeType, findFileTypeByName } from "@/lib/fileTypeRegistry"
+import {
+  AnalysisTimeline,
+  DIAGNOSTIC_RESULT_VERSION,
+  DiagnosticResult,
+  DiagnosticTable,
+  EvidenceReference,
+  Severity,
+  TimelineBucket
+} from "@/types/diagnosticResult"
+import { LogEntry, LogLevel, parseLog } from "./parse"
+
+// Offline heuristic analysis of log files. Runs in the log analysis worker;
+// see analysisClient.ts. Nothing here understands the question, it reports
+// what stands out in the logs: error and warning bursts, recurring messages,
+// stack traces and well-known Kubernetes failures.
+
+export interface LogAnalysisInput {
+  fileId: string
+  name: string
+  // Canonical MIME type, see fileTypeRegistry.ts
+  type: string
+  // Gives syslog and klog timestamps their year
+  lastModified?: number
+  bytes: Uint8Array
+}
+
+export interface LogAnalysisOptions {
+  // Only look at log entries from this window, in epoch milliseconds (end
+  // exclusive). Files without timestamps are still searched for Kubernetes
+  // events.
+  timeRange?: { from: number; to: number }
+}
+
+type TimelineLevel = Exclude<keyof TimelineBucket, "start">
+
+interface KubernetesEvent {
+  id: string
+  pattern: RegExp
+  severity: Severity
+  describe: (count: number) => string
+  recommendation: string
+}
+
+const KUBERNETES_EVENTS: KubernetesEvent[] = [
+  {
+    id: "OOMKilled",
+    pattern: /\bOOMKilled\b|\bOOM[- ]killed\b|Out of memory: Killed? process/i,
+    severity: "critical",
+    describe: count => `Containers were killed for running out of memory (OOMKilled, ${count}×)`,
+    recommendation: "Raise the memory limit of the OOMKilled containers or profile them for leaks; `kubectl describe pod` shows the limit they hit",
+  },
+  {
+    id: "CrashLoopBackOff",
+    pattern: /\bCrashLoopBackOff\b|Back-off restarting failed container/,
+    severity: "high",
+    describe: count => `Containers are crash looping (CrashLoopBackOff, ${count}×)`,
+    recommendation: "Read the logs of the previous container run with `kubectl logs --previous` to find why it exits",
+  },
+  {
+    id: "ImagePullBackOff",
+    pattern: /\bImagePullBackOff\b|\bErrImagePull\b|Failed to pull image/,
+    severity: "high",
+    describe: count => `Images could not be pulled (ImagePullBackOff, ${count}×)`,
+    recommendation: "Check the image name and tag, and that the node can reach the registry with valid pull secrets",
+  },
+]
+
+// Text files above this size are skipped rather than loaded into one string
+const MAX_ANALYZED_BYTES = 64 * 1024 * 1024
+// Distinct messages tracked; the rest of a very noisy log is only counted
+const MAX_MESSAGE_GROUPS = 5000
+const MAX_TABLE_ROWS = 10
+const MAX_BURSTS = 5
+// A time bucket is part of a burst when it has at least this many entries...
+const MIN_BURST_COUNT = 5
+// ...and this many times the average rate of the file
+const BURST_FACTOR = 4
+const MAX_EXCERPT_LENGTH = 200
+// Bars in the timeline chart
+const MAX_TIMELINE_BUCKETS = 120
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+const HOUR = 60 * MINUTE
+const TIMELINE_BUCKET_SIZES = [
+  SECOND, 5 * SECOND, 15 * SECOND, 30 * SECOND,
+  MINUTE, 5 * MINUTE, 15 * MINUTE, 30 * MINUTE,
+  HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR, 24 * HOUR,
+]
+
+const LEVEL_RANK: Record<LogLevel, number> = { fatal: 5, error: 4, warn: 3, info: 2, debug: 1, unknown: 0 }
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, low: 1, medium: 2, high: 3, critical: 4 }
+
+// Parsers that produce log lines; other text files are only searched for
+// Kubernetes events (e.g. a pod manifest stuck in CrashLoopBackOff)
+const LOG_PARSERS = ["log", "json-lines", "text"]
+
+interface Location {
+  fileId: string
+  path?: string
+  // The entry path inside an archive, else the file name
+  name: string
+  line: number
+  endLine?: number
+  excerpt: string
+}
+
+interface MessageGroup {
+  level: LogLevel
+  count: number
+  message: string
+  source?: string
+  firstTime?: number
+  first: Location
+}
+
+interface Burst {
+  level: "error" | "warn"
+  start: number
+  end: number
+  count: number
+  // Times the average rate of the file
+  factor: number
+}
+
+interface Stats {
+  // Every text file looked at, and the ones among them that are logs
+  files: string[]
+  logFiles: string[]
+  skipped: string[]
+  lines: number
+  levels: Record<LogLevel, number>
+  firstTime?: number
+  lastTime?: number
+  // Entry times by timeline level
+  times: Record<TimelineLevel, number[]>
+  messages: Map<string, MessageGroup>
+  stackTraces: Map<string, { count: number; first: Location }>
+  events: Map<string, { count: number; first: Location }>
+}
+
+const decoder = new TextDecoder()
+
+const isProbablyText = (bytes: Uint8Array) => !bytes.subarray(0, 8000).includes(0)
+
+const toExcerpt = (text: string) =>
+  text.length > MAX_EXCERPT_LENGTH ? text.slice(0, MAX_EXCERPT_LENGTH - 1) + "…" : text
+
+// Messages that differ only in ids, numbers and durations count as one
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>")
+    .replace(/\b(?:\d{1,3}\.){3}\d{1,3}(?::\d+)?\b/g, "<ip>")
+    .replace(/\b0x[0-9a-f]+\b|\b[0-9a-f]{12,}\b/gi, "<hex>")
+    .replace(/\d+(?:\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+const formatTime = (time: number) => format(time, "MMM d HH:mm:ss")
+
+const formatCount = (count: number, noun: string) =>
+  `${count.toLocaleString("en-US")} ${noun}${count === 1 ? "" : "s"}`
+
+const emptyStats = (): Stats => ({
+  files: [],
+  logFiles: [],
+  skipped: [],
+  lines: 0,
+  levels: { fatal: 0, error: 0, warn: 0, info: 0, debug: 0, unknown: 0 },
+  times: { error: [], warn: [], info: [], other: [] },
+  messages: new Map(),
+  stackTraces: new Map(),
+  events: new Map(),
+})
+
+const findEvents = (stats: Stats, text: string, location: () => Location) => {
+  for (const event of KUBERNETES_EVENTS) {
+    if (!event.pattern.test(text)) continue
+
+    const existing = stats.events.get(event.id)
+    if (existing) existing.count++
+    else stats.events.set(event.id, { count: 1, first: location() })
+  }
+}
+
+const toTimelineLevel = (level: LogLevel): TimelineLevel =>
+  level === "fatal" || level === "error" ? "error" : level === "warn" || level === "info" ? level : "other"
+
+// Where the text being analyzed comes from
+type TextSource = Pick<Location, "fileId" | "path" | "name">
+
+const addEntry = (stats: Stats, entry: LogEntry, source: TextSource) => {
+  stats.levels[entry.level]++
+  stats.lines += entry.endLine - entry.line + 1
+
+  if (entry.time !== undefined) {
+    stats.firstTime = Math.min(stats.firstTime ?? entry.time, entry.time)
+    stats.lastTime = Math.max(stats.lastTime ?? entry.time, entry.time)
+    stats.times[toTimelineLevel(entry.level)].push(entry.time)
+  }
+
+  const location = (): Location => ({
+    ...source,
+    line: entry.line,
+    endLine: entry.endLine > entry.line ? entry.endLine : undefined,
+    excerpt: toExcerpt(entry.text),
+  })
+
+  findEvents(stats, entry.text, location)
+
+  if (entry.stackFrame) {
+    const trace = stats.stackTraces.get(entry.stackFrame)
+    if (trace) trace.count++
+    else stats.stackTraces.set(entry.stackFrame, { count: 1, first: location() })
+  }
+
+  if (LEVEL_RANK[entry.level] < LEVEL_RANK.warn) return
+
+  const key = `${entry.level} ${entry.source ?? ""} ${normalizeMessage(entry.message)}`
+  const group = stats.messages.get(key)
+  if (group) {
+    group.count++
+  } else if (stats.messages.size < MAX_MESSAGE_GROUPS) {
+    stats.messages.set(key, {
+      level: entry.level,
+      count: 1,
+      message: entry.message,
+      source: entry.source,
+      firstTime: entry.time,
+      first: location(),
+    })
+  }
+}
+
+const addText = (stats: Stats, text: string, input: LogAnalysisInput, isLog: boolean, options: LogAnalysisOptions, path?: string) => {
+  const source: TextSource = { fileId: input.fileId, path, name: path ?? input.name }
+  stats.files.push(source.name)
+
+  if (!isLog) {
+    text.split("\n").forEach((line, index) => {
+      findEvents(stats, line, () => ({ ...source, line: index + 1, excerpt: toExcerpt(line.trim()) }))
+    })
+    return
+  }
+
+  stats.logFiles.push(source.name)
+  const year = input.lastModified ? new Date(input.lastModified).getUTCFullYear() : undefined
+  const { timeRange } = options
+  // Lines without a timestamp belong to the time of the line before them
+  let time: number | undefined
+
+  parseLog(text, year).forEach(entry => {
+    time = entry.time ?? time
+    if (timeRange && (time === undefined || time < timeRange.from || time >= timeRange.to)) return
+
+    addEntry(stats, entry, source)
+  })
+}
+
+const isLogType = (type: string | undefined) => type === undefined || LOG_PARSERS.includes(type)
+
+const addInput = async (stats: Stats, input: LogAnalysisInput, options: LogAnalysisOptions) => {
+  const { bytes, name } = input
+
+  if (!(isZip(bytes) || isGzip(bytes) || isTar(bytes))) {
+    if (!isProbablyText(bytes) || bytes.length > MAX_ANALYZED_BYTES) {
+      stats.skipped.push(name)
+      return
+    }
+
+    const parser = (findFileTypeByMimeType(input.type) ?? findFileTypeByName(name))?.parser
+    addText(stats, decoder.decode(bytes), input, isLogType(parser), options)
+    return
+  }
+
+  const archive = await openArchive(bytes, name)
+  for (const entry of archive.entries) {
+    if (entry.isDirectory) continue
+
+    const data = await archive.extract(entry.path)
+    const nested = isZip(data) || isGzip(data)
+    if (nested || !isProbablyText(data) || data.length > MAX_ANALYZED_BYTES) {
+      stats.skipped.push(entry.path)
+      continue
+    }
+
+    addText(stats, decoder.decode(data), input, isLogType(findFileTypeByName(entry.path)?.parser), options, entry.path)
+  }
+}
+
+// Bucket size for burst detection, so a file has at most a few hundred buckets
+const getBucketSize = (span: number) =>
+  [MINUTE, 5 * MINUTE, 15 * MINUTE, HOUR, 6 * HOUR].find(size => span / size <= 360) ?? 24 * HOUR
+
+const findBursts = (times: number[], level: Burst["level"], firstTime: number, lastTime: number): Burst[] => {
+  if (times.length < MIN_BURST_COUNT) return []
+
+  const bucketSize = getBucketSize(lastTime - firstTime)
+  const bucketCount = Math.floor((lastTime - firstTime) / bucketSize) + 1
+  const buckets = new Array<number>(bucketCount).fill(0)
+  times.forEach(time => buckets[Math.floor((time - firstTime) / bucketSize)]++)
+
+  const average = times.length / bucketCount
+  const threshold = Math.max(MIN_BURST_COUNT, average * BURST_FACTOR)
+  const bursts: Burst[] = []
+
+  let current: Burst | null = null
+  buckets.forEach((count, index) => {
+    if (count < threshold) {
+      current = null
+      return
+    }
+
+    const start = firstTime + index * bucketSize
+    if (current) {
+      current.end = start + bucketSize
+      current.count += count
+    } else {
+      current = { level, start, end: start + bucketSize, count, factor: 0 }
+      bursts.push(current)
+    }
+  })
+
+  // A burst covering most of the file is just the normal rate
+  return bursts
+    .filter(burst => burst.end - burst.start < (bucketCount * bucketSize) / 2)
+    .map(burst => ({ ...burst, factor: burst.count / ((burst.end - burst.start) / bucketSize) / average }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_BURSTS)
+}
+
+// Bars aligned to round times, e.g. every 5 minutes on the 5-minute mark
+const buildTimeline = (stats: Stats): AnalysisTimeline | undefined => {
+  if (stats.firstTime === undefined || stats.lastTime === undefined) return undefined
+
+  const span = stats.lastTime - stats.firstTime
+  const bucketMs = TIMELINE_BUCKET_SIZES.find(size => span / size < MAX_TIMELINE_BUCKETS) ?? TIMELINE_BUCKET_SIZES[TIMELINE_BUCKET_SIZES.length - 1]
+  const start = Math.floor(stats.firstTime / bucketMs) * bucketMs
+  const buckets: TimelineBucket[] = Array.from(
+    { length: Math.floor((stats.lastTime - start) / bucketMs) + 1 },
+    (_, index) => ({ start: start + index * bucketMs, error: 0, warn: 0, info: 0, other: 0 })
+  )
+
+  for (const level of Object.keys(stats.times) as TimelineLevel[]) {
+    stats.times[level].forEach(time => buckets[Math.floor((time - start) / bucketMs)][level]++)
+  }
+
+  return { bucketMs, buckets }
+}
+
+const toEvidence = (label: string, location: Location): EvidenceReference => ({
+  label,
+  fileId: location.fileId,
+  path: location.path,
+  line: location.line,
+  endLine: location.endLine,
+  excerpt: location.excerpt,
+})
+
+const raise = (current: Severity, severity: Severity): Severity =>
+  SEVERITY_RANK[severity] > SEVERITY_RANK[current] ? severity : current
+
+const describeFiles = (files: string[]) =>
+  files.length === 1 ? files[0] : `${files.length} files`
+
+const buildResult = (stats: Stats, options: LogAnalysisOptions): DiagnosticResult => {
+  if (stats.files.length === 0) {
+    return {
+      version: DIAGNOSTIC_RESULT_VERSION,
+      severity: "info",
+      summary: stats.skipped.length > 0
+        ? `None of the files contain text that can be analyzed offline (skipped ${stats.skipped.join(", ")}).`
+        : "There was nothing to analyze.",
+    }
+  }
+
+  const errors = stats.levels.error + stats.levels.fatal
+  const warnings = stats.levels.warn
+  const insights: string[] = []
+  const recommendations: string[] = []
+  const tables: DiagnosticTable[] = []
+  const evidence: EvidenceReference[] = []
+  let severity: Severity = warnings > 0 ? "low" : "info"
+  if (errors > 0) severity = raise(severity, "medium")
+  if (stats.levels.fatal > 0) severity = raise(severity, "critical")
+
+  const summary: string[] = []
+  const range = stats.firstTime !== undefined && stats.lastTime !== undefined
+    ? ` between ${formatTime(stats.firstTime)} and ${formatTime(stats.lastTime)}`
+    : ""
+  const { timeRange } = options
+  summary.push(stats.lines > 0
+    ? `Analyzed ${formatCount(stats.lines, "log line")} from ${describeFiles(stats.logFiles)}${range}.`
+    : timeRange
+      ? `Found no log lines between ${formatTime(timeRange.from)} and ${formatTime(timeRange.to)} in ${describeFiles(stats.files)}.`
+      : `Found no log lines in ${describeFiles(stats.files)}.`)
+  if (stats.lines > 0) {
+    summary.push(errors + warnings > 0
+      ? `Found ${formatCount(errors, "error")} and ${formatCount(warnings, "warning")}.`
+      : "No errors or warnings were logged.")
+  }
+
+  // Kubernetes failures
+  const events = KUBERNETES_EVENTS.filter(event => stats.events.has(event.id))
+  events.forEach(event => {
+    const { count, first } = stats.events.get(event.id)!
+    severity = raise(severity, event.severity)
+    insights.push(event.describe(count))
+    recommendations.push(event.recommendation)
+    evidence.push(toEvidence(event.id, first))
+  })
+  if (events.length > 0) {
+    summary.push(`Kubernetes reported ${events.map(event => event.id).join(", ")}.`)
+    tables.push({
+      id: "kubernetes-events",
+      name: "Kubernetes events",
+      columns: ["Event", "Occurrences", "First seen in", "Line"],
+      data: events.map(event => {
+        const { count, first } = stats.events.get(event.id)!
+        return [event.id, String(count), first.name, String(first.line)]
+      }),
+    })
+  }
+
+  // Error and warning bursts
+  const bursts = stats.firstTime !== undefined && stats.lastTime !== undefined
+    ? [
+        ...findBursts(stats.times.error, "error", stats.firstTime, stats.lastTime),
+        ...findBursts(stats.times.warn, "warn", stats.firstTime, stats.lastTime),
+      ]
+    : []
+  // The table lists every burst; insights only the largest of each level
+  const largestBursts = (["error", "warn"] as const).flatMap(level => bursts.find(burst => burst.level === level) ?? [])
+  largestBursts.forEach(burst => {
+    const noun = burst.level === "error" ? "error" : "warning"
+    insights.push(`Burst of ${formatCount(burst.count, noun)} between ${formatTime(burst.start)} and ${formatTime(burst.end)}, ${Math.round(burst.factor)}× the usual rate`)
+  })
+  const errorBurst = largestBursts.find(burst => burst.level === "error")
+  if (errorBurst) {
+    severity = raise(severity, "high")
+    summary.push(`Errors peaked from ${formatTime(errorBurst.start)}.`)
+    recommendations.push(`Look at what changed shortly before ${formatTime(errorBurst.start)} (deployments, config changes, dependency outages)`)
+  }
+  if (bursts.length > 0) {
+    tables.push({
+      id: "bursts",
+      name: "Error and warning bursts",
+      columns: ["Level", "From", "To", "Entries", "× usual rate"],
+      data: bursts.map(burst => [
+        burst.level === "error" ? "Error" : "Warning",
+        formatTime(burst.start),
+        formatTime(burst.end),
+        String(burst.count),
+        String(Math.round(burst.factor)),
+      ]),
+    })
+  }
+
+  // Recurring messages, worst level first
+  const messages = [...stats.messages.values()]
+    .sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level] || b.count - a.count)
+    .slice(0, MAX_TABLE_ROWS)
+  const topError = messages
+    .filter(group => LEVEL_RANK[group.level] >= LEVEL_RANK.error)
+    .sort((a, b) => b.count - a.count)[0]
+  if (topError) {
+    insights.push(`Most frequent error (${topError.count}×)${topError.source ? ` from ${topError.source}` : ""}: ${toExcerpt(topError.message)}`)
+    evidence.push(toEvidence("Most frequent error", topError.first))
+  }
+  if (messages.length > 0) {
+    tables.push({
+      id: "top-messages",
+      name: "Top recurring errors and warnings",
+      columns: ["Level", "Count", "Source", "Message", "First seen"],
+      data: messages.map(group => [
+        group.level,
+        String(group.count),
+        group.source ?? "",
+        toExcerpt(group.message),
+        group.firstTime !== undefined ? formatTime(group.firstTime) : `line ${group.first.line}`,
+      ]),
+    })
+  }
+
+  // Stack traces, most frequent first
+  const stackTraces = [...stats.stackTraces.entries()].sort((a, b) => b[1].count - a[1].count)
+  if (stackTraces.length > 0) {
+    const total = stackTraces.reduce((sum, [, trace]) => sum + trace.count, 0)
+    insights.push(`${formatCount(total, "stack trace")} from ${formatCount(stackTraces.length, "distinct location")}`)
+    recommendations.push(`Start with the most frequent stack trace (${stackTraces[0][0]})`)
+    evidence.push(toEvidence("Stack trace", stackTraces[0][1].first))
+    tables.push({
+      id: "stack-traces",
+      name: "Stack traces",
+      columns: ["Top frame", "Count", "First seen in", "Line"],
+      data: stackTraces.slice(0, MAX_TABLE_ROWS).map(([frame, trace]) => [
+        frame,
+        String(trace.count),
+        trace.first.name,
+        String(trace.first.line),
+      ]),
+    })
+  }
+
+  if (stats.skipped.length > 0) {
+    insights.push(`Skipped ${formatCount(stats.skipped.length, "file")} that are binary, nested archives or too large: ${stats.skipped.slice(0, 5).join(", ")}${stats.skipped.length > 5 ? "…" : ""}`)
+  }
+  if (insights.length === 0) {
+    insights.push("Nothing unusual stands out in these logs")
+  }
+
+  return {
+    version: DIAGNOSTIC_RESULT_VERSION,
+    severity,
+    summary: summary.join(" "),
+    insights,
+    recommendations,
+    tables,
+    evidence,
+    timeline: buildTimeline(stats),
+  }
+}
+
+// Analyze several files together, as one investigation
+export async function analyzeLogFiles(inputs: LogAnalysisInput[], options: LogAnalysisOptions = {}): Promise<DiagnosticResult> {
+  const stats = emptyStats()
+  for (const input of inputs) {
+    await addInput(stats, input, options)
+  }
+  return buildResult(stats, options)
+}
@@ -0,0 +1,42 @@
+import type { LogAnalysisFile, LogAnalysisResponse } from "@/workers/logAnalysisWorker"
+import type { LogAnalysisOptions } from "./analysis"
+import type { DiagnosticResult } from "@/types/diagnosticResult"
+import { handleWorkerFailure } from "@/lib/workerFailure"
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, { resolve: (result: DiagnosticResult) => void; reject: (error: Error) => void }>()
+
+const getWorker = () => {
+  if (worker) return worker
+
+  worker = new Worker(new URL("../../workers/logAnalysisWorker.ts", import.meta.url), { type: "module" })
+  worker.onmessage = (event: MessageEvent<LogAnalysisResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+
+    pending.delete(response.id)
+    if (response.type === "done") {
+      request.resolve(response.result)
+    } else {
+      request.reject(new Error(response.message))
+    }
+  }
+
+  handleWorkerFailure(worker, "log analysis", pending, () => {
+    worker = null
+  })
+
+  return worker
+}
+
+// Analyze the files together in the worker, so large logs do not block the UI
+export function analyzeLogs(files: LogAnalysisFile[], options: LogAnalysisOptions = {}): Promise<DiagnosticResult> {
+  const id = nextId++
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    getWorker().postMessage({ id, files, options })
+  })
+}
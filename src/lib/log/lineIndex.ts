@@ -0,0 +1,109 @@
+import { LOG_LEVELS, LogLevel, guessLevel, isContinuation, parseLogLine } from "./parse"
+
+// Per-line index of a log for the viewer. Lines are 0-based here; the UI
+// shows them 1-based. Typed arrays keep millions of lines affordable.
+
+export interface LogLineIndex {
+  // Offset of the first character of every line
+  starts: Uint32Array
+  // Index into LOG_LEVELS. Continuation lines (stack frames...) take the
+  // level of the entry they belong to.
+  levels: Uint8Array
+  // Epoch milliseconds, NaN when neither the line nor its entry has one
+  times: Float64Array
+  // Length of the longest line, for horizontal scrolling
+  maxLength: number
+}
+
+// Longer lines are cut for display and searched only up to here
+export const MAX_LINE_LENGTH = 10000
+
+const UNKNOWN = LOG_LEVELS.indexOf("unknown")
+
+export function getLineStarts(text: string): Uint32Array {
+  let count = 1
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) count++
+  // A trailing newline does not start another line
+  if (text.endsWith("\n")) count--
+
+  const starts = new Uint32Array(Math.max(1, count))
+  let line = 1
+  for (let i = text.indexOf("\n"); i !== -1 && line < count; i = text.indexOf("\n", i + 1)) starts[line++] = i + 1
+  return starts
+}
+
+// Offset of the line break ending a line (or the end of the text)
+const getLineEnd = (text: string, starts: Uint32Array, line: number) =>
+  line + 1 < starts.length ? starts[line + 1] - 1 : text.endsWith("\n") ? text.length - 1 : text.length
+
+export function getLine(text: string, index: LogLineIndex, line: number): string {
+  const start = index.starts[line]
+  const end = getLineEnd(text, index.starts, line)
+  const value = text.slice(start, Math.min(end, start + MAX_LINE_LENGTH))
+  return value.endsWith("\r") ? value.slice(0, -1) : value
+}
+
+export function getLineLevel(index: LogLineIndex, line: number): LogLevel {
+  return LOG_LEVELS[index.levels[line]]
+}
+
+// `year` fills in timestamps that have none (syslog, klog)
+export function indexLog(text: string, year = new Date().getUTCFullYear()): LogLineIndex {
+  const starts = getLineStarts(text)
+  const levels = new Uint8Array(starts.length).fill(UNKNOWN)
+  const times = new Float64Array(starts.length).fill(NaN)
+  let maxLength = 0
+  // Level and time of the entry the current line belongs to
+  let entryLevel = UNKNOWN
+  let entryTime = NaN
+
+  for (let line = 0; line < starts.length; line++) {
+    const end = getLineEnd(text, starts, line)
+    maxLength = Math.max(maxLength, end - starts[line])
+    const value = text.slice(starts[line], Math.min(end, starts[line] + MAX_LINE_LENGTH))
+    if (value.trim() === "") continue
+
+    if (line > 0 && isContinuation(value)) {
+      levels[line] = entryLevel
+      times[line] = entryTime
+      continue
+    }
+
+    const parsed = parseLogLine(value, year)
+    entryLevel = LOG_LEVELS.indexOf(parsed?.level ?? guessLevel(value))
+    entryTime = parsed?.time ?? NaN
+    levels[line] = entryLevel
+    times[line] = entryTime
+  }
+
+  return { starts, levels, times, maxLength: Math.min(maxLength, MAX_LINE_LENGTH) }
+}
+
+// Lines with at least one match, in order. `pattern` must have the "g" flag.
+export function searchLines(text: string, { starts }: Pick<LogLineIndex, "starts">, pattern: RegExp, limit: number): number[] {
+  const matches: number[] = []
+  let line = 0
+
+  pattern.lastIndex = 0
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    // Empty matches would never advance
+    if (match[0] === "") pattern.lastIndex++
+
+    while (line + 1 < starts.length && starts[line + 1] <= match.index) line++
+    if (matches[matches.length - 1] !== line) {
+      matches.push(line)
+      if (matches.length >= limit) break
+    }
+
+    // One hit per line is enough; continue with the next line
+    if (line + 1 < starts.length) pattern.lastIndex = Math.max(pattern.lastIndex, starts[line + 1])
+    else break
+  }
+
+  return matches
+}
+
+// First line logged at or after `time`; -1 when every line is older
+export function findLineAtTime(index: LogLineIndex, time: number): number {
+  return index.times.findIndex(value => value >= time)
+}
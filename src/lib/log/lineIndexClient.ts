@@ -0,0 +1,61 @@
+import type { LogIndexRequest, LogIndexResponse } from "@/workers/logIndexWorker"
+import type { LogLineIndex } from "./lineIndex"
+import { handleWorkerFailure } from "@/lib/workerFailure"
+
+// Distributes Omit over the request union so each variant keeps its fields
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, { resolve: (response: LogIndexResponse) => void; reject: (error: Error) => void }>()
+
+const getWorker = () => {
+  if (worker) return worker
+
+  worker = new Worker(new URL("../../workers/logIndexWorker.ts", import.meta.url), { type: "module" })
+  worker.onmessage = (event: MessageEvent<LogIndexResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+
+    pending.delete(response.id)
+    if (response.type === "error") {
+      request.reject(new Error(response.message))
+    } else {
+      request.resolve(response)
+    }
+  }
+
+  handleWorkerFailure(worker, "log index", pending, () => {
+    worker = null
+  })
+
+  return worker
+}
+
+const send = (request: DistributiveOmit<LogIndexRequest, "id">): Promise<LogIndexResponse> => {
+  const id = nextId++
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    getWorker().postMessage({ ...request, id })
+  })
+}
+
+// Decode and index a log in the worker, so opening a huge file does not
+// freeze the page
+export async function indexLogFile(blob: Blob, year?: number): Promise<{ text: string; index: LogLineIndex }> {
+  const response = await send({ type: "index", blob, year })
+  if (response.type !== "done") throw new Error("Unexpected log index worker response")
+
+  return { text: response.text, index: response.index }
+}
+
+// Lines with a match, found in the worker so typing a search into a huge
+// log stays responsive. `pattern` must have the "g" flag.
+export async function searchLogLines(text: string, index: LogLineIndex, pattern: RegExp, limit: number): Promise<number[]> {
+  const response = await send({ type: "search", text, starts: index.starts, pattern, limit })
+  if (response.type !== "matches") throw new Error("Unexpected log index worker response")
+
+  return response.lines
+}
@@ -0,0 +1,173 @@
+import { parseTimestamp } from "./timestamp"
+
+// Splits log text into entries: one line with a timestamp or level, plus the
+// continuation lines (stack traces, wrapped messages) that follow it.
+
+export type LogLevel = "fatal" | "error" | "warn" | "info" | "debug" | "unknown"
+
+// Most severe first
+export const LOG_LEVELS: LogLevel[] = ["fatal", "error", "warn", "info", "debug", "unknown"]
+
+// What a single line says about itself
+export type ParsedLogLine = Pick<LogEntry, "time" | "level" | "source" | "message">
+
+export interface LogEntry {
+  // 1-based, inclusive
+  line: number
+  endLine: number
+  // Milliseconds since the epoch, when the line has a timestamp
+  time?: number
+  level: LogLevel
+  // e.g. the service in "ERROR [api-gateway] ..."
+  source?: string
+  message: string
+  // First line exactly as written
+  text: string
+  // First frame of a stack trace in the continuation lines
+  stackFrame?: string
+}
+
+const LEVEL_NAMES: Record<string, LogLevel> = {
+  fatal: "fatal",
+  panic: "fatal",
+  crit: "fatal",
+  critical: "fatal",
+  emerg: "fatal",
+  alert: "fatal",
+  error: "error",
+  err: "error",
+  eror: "error",
+  warn: "warn",
+  warning: "warn",
+  info: "info",
+  notice: "info",
+  debug: "debug",
+  trace: "debug",
+}
+
+const KLOG_LEVELS: Record<string, LogLevel> = { I: "info", W: "warn", E: "error", F: "fatal" }
+
+// "ERROR msg", "[error] msg", "<warn>: msg", "level=error msg=..."
+const LEVEL_PREFIX = /^[[<(]?([a-z]+)[\]>)]?:?(?:\s+|$)/i
+const LOGFMT_LEVEL = /\blevel=["']?([a-z]+)/i
+const SOURCE_PREFIX = /^\[([^\]\s]{1,64})\]\s*/
+
+// Lines without a level still get one when they clearly report a problem
+const ERROR_WORDS = /(?:exception|error)\b|\b(?:fatal|panic|failed|failure)\b/i
+const WARNING_WORDS = /\bwarn(?:ing)?\b/i
+
+const STACK_FRAME_PATTERNS = [
+  // Java, JavaScript, .NET
+  /^\s+at\s+\S/,
+  // Python
+  /^\s+File ".*", line \d+/,
+  // Go: main.go:42 under a function name
+  /^\s+\S+\.go:\d+/,
+]
+
+const CONTINUATION_PATTERNS = [
+  ...STACK_FRAME_PATTERNS,
+  /^\s/,
+  /^Caused by:/,
+  /^Traceback \(most recent call last\):/,
+  /^goroutine \d+ \[/,
+  /^\.\.\. \d+ more/,
+]
+
+const toLevel = (name: unknown): LogLevel | undefined =>
+  typeof name === "string" ? LEVEL_NAMES[name.toLowerCase()] : undefined
+
+// Level of a line that names none, from the words in it
+export const guessLevel = (message: string): LogLevel =>
+  ERROR_WORDS.test(message) ? "error" : WARNING_WORDS.test(message) ? "warn" : "unknown"
+
+const readJsonTime = (value: unknown, year: number) => {
+  if (typeof value === "number") return value < 1e12 ? value * 1000 : value
+  if (typeof value === "string") return parseTimestamp(value, year)?.time
+  return undefined
+}
+
+// Structured logs: {"level":"error","msg":"...","time":"..."}
+const parseJsonLine = (line: string, year: number): ParsedLogLine | null => {
+  if (!line.startsWith("{")) return null
+
+  let record: Record<string, unknown>
+  try {
+    record = JSON.parse(line)
+  } catch {
+    return null
+  }
+  if (typeof record !== "object" || record === null || Array.isArray(record)) return null
+
+  const message = [record.msg, record.message, record.error].find(value => typeof value === "string") as string | undefined
+  return {
+    time: readJsonTime(record.time ?? record.ts ?? record.timestamp ?? record["@timestamp"], year),
+    level: toLevel(record.level ?? record.severity ?? record.lvl) ?? guessLevel(message ?? ""),
+    source: [record.service, record.logger, record.component].find(value => typeof value === "string") as string | undefined,
+    message: message ?? line,
+  }
+}
+
+const parseTextLine = (line: string, year: number): ParsedLogLine | null => {
+  const timestamp = parseTimestamp(line, year)
+  let rest = timestamp ? line.slice(timestamp.length).trimStart() : line
+  let level: LogLevel | undefined
+
+  if (timestamp?.format === "klog") {
+    level = KLOG_LEVELS[line[0]]
+    // Thread id and source location: "1 kubelet.go:2412] message"
+    rest = rest.replace(/^\d+\s+\S+:\d+\]\s*/, "")
+  }
+
+  const prefix = LEVEL_PREFIX.exec(rest)
+  const prefixLevel = prefix ? toLevel(prefix[1]) : undefined
+  if (prefixLevel) {
+    level ??= prefixLevel
+    rest = rest.slice(prefix![0].length)
+  }
+  level ??= toLevel(LOGFMT_LEVEL.exec(rest)?.[1])
+
+  if (!timestamp && !level) return null
+
+  const source = SOURCE_PREFIX.exec(rest)
+  if (source) rest = rest.slice(source[0].length)
+
+  return { time: timestamp?.time, level: level ?? guessLevel(rest), source: source?.[1], message: rest.trim() }
+}
+
+// Stack frames and indented lines that belong to the entry above them
+export const isContinuation = (line: string) => CONTINUATION_PATTERNS.some(pattern => pattern.test(line))
+
+// Null when the line has neither a timestamp nor a level
+export const parseLogLine = (line: string, year: number): ParsedLogLine | null =>
+  parseJsonLine(line, year) ?? parseTextLine(line, year)
+
+const isStackFrame = (line: string) => STACK_FRAME_PATTERNS.some(pattern => pattern.test(line))
+
+// `year` fills in timestamps that have none (syslog, klog)
+export function parseLog(text: string, year?: number): LogEntry[] {
+  const entries: LogEntry[] = []
+  const lines = text.split("\n")
+  const referenceYear = year ?? new Date().getUTCFullYear()
+
+  lines.forEach((raw, index) => {
+    const line = raw.endsWith("\r") ? raw.slice(0, -1) : raw
+    if (line.trim() === "") return
+
+    const previous = entries[entries.length - 1]
+    if (previous && previous.endLine >= index && isContinuation(line)) {
+      previous.endLine = index + 1
+      if (!previous.stackFrame && isStackFrame(line)) previous.stackFrame = line.trim()
+      return
+    }
+
+    entries.push({
+      ...(parseLogLine(line, referenceYear) ?? { level: guessLevel(line), message: line.trim() }),
+      line: index + 1,
+      endLine: index + 1,
+      text: line,
+    })
+  })
+
+  return entries
+}
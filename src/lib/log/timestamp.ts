@@ -0,0 +1,87 @@
+import { format } from "date-fns"
+
+// Timestamps at the start of log lines. Formats without a time zone are read
+// as UTC, and formats without a year (syslog, klog) take the year they are
+// given, usually the year the file was last modified.
+
+export type TimestampFormat = "iso" | "syslog" | "klog" | "epoch"
+
+export interface ParsedTimestamp {
+  // Milliseconds since the epoch
+  time: number
+  format: TimestampFormat
+  // Characters taken by the timestamp, including ISO brackets
+  length: number
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+// 2024-09-26T11:57:35Z / [2024-09-26 11:57:35,123] / 2024-09-26T11:57:35.123+02:00
+const ISO_PATTERN = /^\[?(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})(?:[.,](\d+))?(Z|[+-]\d{2}:?\d{2})?\]?/
+// Sep 26 11:57:35
+const SYSLOG_PATTERN = /^([A-Z][a-z]{2}) ([ \d]\d) (\d{2}):(\d{2}):(\d{2})/
+// I0926 11:57:35.123456
+const KLOG_PATTERN = /^[IWEF](\d{2})(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?/
+// Epoch seconds or milliseconds, followed by whitespace
+const EPOCH_PATTERN = /^(\d{10})(\d{3})?(?:\.(\d+))?(?=\s)/
+
+const toMilliseconds = (fraction: string | undefined) => (fraction ? Number(fraction.slice(0, 3).padEnd(3, "0")) : 0)
+
+const toOffsetMinutes = (zone: string | undefined) => {
+  if (!zone || zone === "Z") return 0
+  const [, sign, hours, minutes] = /^([+-])(\d{2}):?(\d{2})$/.exec(zone)!
+  return (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes))
+}
+
+// Date.UTC rolls invalid dates over (Feb 30 becomes Mar 2); reject them instead
+const toTime = (year: number, month: number, day: number, hours: number, minutes: number, seconds: number, milliseconds: number) => {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 60) return null
+
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds)
+  return new Date(time).getUTCDate() === day ? time : null
+}
+
+export function parseTimestamp(line: string, year = new Date().getUTCFullYear()): ParsedTimestamp | null {
+  let match = ISO_PATTERN.exec(line)
+  if (match) {
+    const [text, y, month, day, hours, minutes, seconds, fraction, zone] = match
+    const time = toTime(Number(y), Number(month), Number(day), Number(hours), Number(minutes), Number(seconds), toMilliseconds(fraction))
+    return time === null ? null : { time: time - toOffsetMinutes(zone) * 60000, format: "iso", length: text.length }
+  }
+
+  match = SYSLOG_PATTERN.exec(line)
+  if (match) {
+    const [text, monthName, day, hours, minutes, seconds] = match
+    const month = MONTHS.indexOf(monthName) + 1
+    if (month === 0) return null
+
+    const time = toTime(year, month, Number(day), Number(hours), Number(minutes), Number(seconds), 0)
+    return time === null ? null : { time, format: "syslog", length: text.length }
+  }
+
+  match = KLOG_PATTERN.exec(line)
+  if (match) {
+    const [text, month, day, hours, minutes, seconds, fraction] = match
+    const time = toTime(year, Number(month), Number(day), Number(hours), Number(minutes), Number(seconds), toMilliseconds(fraction))
+    return time === null ? null : { time, format: "klog", length: text.length }
+  }
+
+  match = EPOCH_PATTERN.exec(line)
+  if (match) {
+    const [text, seconds, milliseconds, fraction] = match
+    const time = milliseconds
+      ? Number(seconds + milliseconds)
+      : Number(seconds) * 1000 + toMilliseconds(fraction)
+    return { time, format: "epoch", length: text.length }
+  }
+
+  return null
+}
+
+// "Sep 25, 01:10 – 01:20"; the end repeats the date only when it differs and
+// windows under an hour show seconds
+export function formatTimeRange(from: number, to: number): string {
+  const time = to - from < 3600000 ? "HH:mm:ss" : "HH:mm"
+  const sameDay = format(from, "yyyy-MM-dd") === format(to, "yyyy-MM-dd")
+  return `${format(from, `MMM d, ${time}`)} – ${format(to, sameDay ? time : `MMM d, ${time}`)}`
+}
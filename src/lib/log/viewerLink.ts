@@ -0,0 +1,34 @@
+// Links into the log viewer. The app routes with the URL hash, so the line
+// range travels as a query parameter (?range=L120-L180) rather than as a
+// #L120-L180 fragment.
+
+// 0-based and inclusive, like the viewer's selection
+export interface LineRange {
+  start: number
+  end: number
+}
+
+export function parseLineRange(value: string | null): LineRange | null {
+  const match = value ? /^L(\d+)(?:-L(\d+))?$/.exec(value) : null
+  if (!match) return null
+
+  const first = Number(match[1])
+  const last = match[2] ? Number(match[2]) : first
+  if (first < 1 || last < 1) return null
+
+  return { start: Math.min(first, last) - 1, end: Math.max(first, last) - 1 }
+}
+
+export function formatLineRange({ start, end }: LineRange): string {
+  return start === end ? `L${start + 1}` : `L${start + 1}-L${end + 1}`
+}
+
+// Router path of the viewer for a file, or for a file inside an archive
+export function getLogViewerPath(fileId: string, options: { path?: string; range?: LineRange } = {}): string {
+  const params = new URLSearchParams()
+  if (options.path) params.set("path", options.path)
+  if (options.range) params.set("range", formatLineRange(options.range))
+
+  const query = params.toString()
+  return `/files/${encodeURIComponent(fileId)}/log${query ? `?${query}` : ""}`
+}
@@ -0,0 +1,312 @@
+import { createTar } from "@/lib/archive/tar"
+import { createZip } from "@/lib/archive/zip"
+import { DecompressionLimitError, gzip, isGzip, isTar, isZip, openArchive } from "@/lib/archive"
+
+// Secret and PII scanner for diagnostics files. Runs in the redaction worker;
+// see redactionClient.ts.
+
+export interface RedactionRule {
+  id: string
+  label: string
+  // Regular expression source. Rules travel to a worker, so they are plain
+  // strings rather than RegExp objects.
+  pattern: string
+  // Extra RegExp flags, "g" is always added
+  flags?: string
+  // May reference capture groups ($1, $2...) to keep non-secret context
+  replacement: string
+}
+
+export interface RedactionFinding {
+  ruleId: string
+  // Path inside an archive; missing for plain files
+  path?: string
+  line: number
+  // The line with every finding masked, so it is safe to display
+  preview: string
+}
+
+export interface RedactionReport {
+  // Number of findings per rule id
+  counts: Record<string, number>
+  total: number
+  // The first MAX_REPORTED_FINDINGS findings
+  findings: RedactionFinding[]
+  filesScanned: number
+  // Files that were not scanned (binary, nested archives, too large)
+  skipped: string[]
+  // Rule ids whose findings were masked in the uploaded bytes
+  maskedRules: string[]
+  redacted: boolean
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  {
+    id: "bearer-token",
+    label: "Bearer token",
+    pattern: "\\b(Bearer\\s+)[A-Za-z0-9\\-._~+/]{16,}=*",
+    flags: "i",
+    replacement: "$1[REDACTED]",
+  },
+  {
+    id: "jwt",
+    label: "JSON Web Token",
+    pattern: "\\beyJ[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}",
+    replacement: "[REDACTED_JWT]",
+  },
+  {
+    id: "aws-access-key",
+    label: "AWS access key",
+    pattern: "\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b",
+    replacement: "[REDACTED_AWS_KEY]",
+  },
+  {
+    id: "aws-secret-key",
+    label: "AWS secret key",
+    pattern: "(aws_secret_access_key[\"']?\\s*[=:]\\s*[\"']?)[A-Za-z0-9/+=]{40}",
+    flags: "i",
+    replacement: "$1[REDACTED]",
+  },
+  {
+    id: "connection-string-password",
+    label: "Password in connection string",
+    pattern: "(\\b[a-z][a-z0-9+.-]*://[^\\s:/@]+:)[^\\s@/]+(@)",
+    flags: "i",
+    replacement: "$1[REDACTED]$2",
+  },
+  {
+    id: "password",
+    label: "Password or API key",
+    pattern: "(\\b(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|client[_-]?secret)[\"']?\\s*[=:]\\s*[\"']?)[^\\s\"',;&]{3,}",
+    flags: "i",
+    replacement: "$1[REDACTED]",
+  },
+  {
+    id: "email",
+    label: "Email address",
+    pattern: "\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}\\b",
+    replacement: "[REDACTED_EMAIL]",
+  },
+  {
+    id: "ipv4",
+    label: "IP address",
+    pattern: "\\b(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\b",
+    replacement: "[REDACTED_IP]",
+  },
+  {
+    id: "private-key",
+    label: "Private key",
+    pattern: "-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----",
+    replacement: "[REDACTED_PRIVATE_KEY]",
+  },
+]
+
+const MAX_REPORTED_FINDINGS = 200
+// Files above this size are skipped without being read, and so are archives
+// that inflate to more than this in total
+const MAX_SCAN_BYTES = 128 * 1024 * 1024
+const MAX_PREVIEW_LENGTH = 160
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const toRegExp = (rule: RedactionRule) =>
+  new RegExp(rule.pattern, "g" + (rule.flags ?? "").replace("g", ""))
+
+const isProbablyText = (bytes: Uint8Array) => !bytes.subarray(0, 8000).includes(0)
+
+const getLineStarts = (text: string) => {
+  const starts = [0]
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) starts.push(i + 1)
+  return starts
+}
+
+// 1-based line number of an offset, by binary search over line starts
+const findLine = (lineStarts: number[], offset: number) => {
+  let low = 0
+  let high = lineStarts.length - 1
+  while (low < high) {
+    const middle = (low + high + 1) >> 1
+    if (lineStarts[middle] <= offset) low = middle
+    else high = middle - 1
+  }
+  return low + 1
+}
+
+// Apply rules one after the other. Masking never changes the number of lines,
+// so findings from every rule refer to lines of the original text.
+const applyRules = (text: string, rules: RedactionRule[]) => {
+  const findings: Array<{ ruleId: string; line: number }> = []
+  let output = text
+
+  for (const rule of rules) {
+    const lineStarts = getLineStarts(output)
+
+    output = output.replace(toRegExp(rule), (...args) => {
+      // args: match, ...groups, offset, input (named groups are not used)
+      const offset = args[args.length - 2] as number
+      const groups = args.slice(1, -2) as Array<string | undefined>
+
+      findings.push({ ruleId: rule.id, line: findLine(lineStarts, offset) })
+
+      const replacement = rule.replacement.replace(/\$(\d)/g, (_, group: string) => groups[Number(group) - 1] ?? "")
+      // Keep the line breaks of multi-line matches so line numbers stay valid
+      const lineBreaks = (args[0] as string).split("\n").length - replacement.split("\n").length
+      return replacement + "\n".repeat(Math.max(0, lineBreaks))
+    })
+  }
+
+  return { text: output, findings }
+}
+
+const toPreview = (line: string) => {
+  if (line.length <= MAX_PREVIEW_LENGTH) return line
+  const start = Math.max(0, line.indexOf("[REDACTED") - 40)
+  return (start > 0 ? "…" : "") + line.slice(start, start + MAX_PREVIEW_LENGTH) + "…"
+}
+
+// Scan a string with every rule and mask the findings of `maskRuleIds`
+export function redactText(text: string, rules: RedactionRule[], maskRuleIds: string[]) {
+  const scan = applyRules(text, rules)
+  const maskedLines = scan.text.split("\n")
+  const findings = scan.findings.map(finding => ({
+    ...finding,
+    preview: toPreview(maskedLines[finding.line - 1] ?? ""),
+  }))
+
+  const maskRules = rules.filter(rule => maskRuleIds.includes(rule.id))
+  const output = maskRules.length === rules.length
+    ? scan.text
+    : maskRules.length === 0 ? text : applyRules(text, maskRules).text
+
+  return { text: output, findings }
+}
+
+const emptyReport = (maskRuleIds: string[]): RedactionReport => ({
+  counts: {},
+  total: 0,
+  findings: [],
+  filesScanned: 0,
+  skipped: [],
+  maskedRules: maskRuleIds,
+  redacted: false,
+})
+
+const addFindings = (report: RedactionReport, findings: Omit<RedactionFinding, "path">[], path?: string) => {
+  for (const finding of findings) {
+    report.counts[finding.ruleId] = (report.counts[finding.ruleId] ?? 0) + 1
+    report.total++
+    if (report.findings.length < MAX_REPORTED_FINDINGS) {
+      report.findings.push(path ? { ...finding, path } : finding)
+    }
+  }
+}
+
+// Scan (and optionally mask) a text file or the text files inside an archive.
+// `bytes` is only returned when something was actually masked; archives are
+// repacked in their original format. Only regular files and directories
+// survive repacking.
+export async function redactBytes(
+  input: Uint8Array,
+  name: string,
+  rules: RedactionRule[],
+  maskRuleIds: string[]
+): Promise<{ report: RedactionReport; bytes?: Uint8Array }> {
+  const report = emptyReport(maskRuleIds)
+  const isArchive = isZip(input) || isGzip(input) || isTar(input)
+
+  if (!isArchive) {
+    if (!isProbablyText(input) || input.length > MAX_SCAN_BYTES) {
+      report.skipped.push(name)
+      return { report }
+    }
+
+    const text = decoder.decode(input)
+    const result = redactText(text, rules, maskRuleIds)
+    report.filesScanned = 1
+    addFindings(report, result.findings)
+
+    const changed = result.text !== text
+    report.redacted = changed
+    return { report, bytes: changed ? encoder.encode(result.text) : undefined }
+  }
+
+  try {
+    return await redactArchive(input, name, rules, maskRuleIds, report)
+  } catch (error) {
+    // Repacking needs every entry, so the whole archive goes unscanned
+    if (!(error instanceof DecompressionLimitError)) throw error
+    return { report: { ...emptyReport(maskRuleIds), skipped: [name] } }
+  }
+}
+
+// The archive half of redactBytes; throws DecompressionLimitError when the
+// archive inflates past MAX_SCAN_BYTES
+const redactArchive = async (
+  input: Uint8Array,
+  name: string,
+  rules: RedactionRule[],
+  maskRuleIds: string[],
+  report: RedactionReport
+): Promise<{ report: RedactionReport; bytes?: Uint8Array }> => {
+  const archive = await openArchive(input, name, MAX_SCAN_BYTES)
+  const files: Array<{ path: string; data: Uint8Array; mtime: number }> = []
+  let changed = false
+  let inflated = 0
+
+  for (const entry of archive.entries) {
+    const path = entry.isDirectory && !entry.path.endsWith("/") ? `${entry.path}/` : entry.path
+    if (entry.isDirectory) {
+      files.push({ path, data: new Uint8Array(0), mtime: entry.mtime })
+      continue
+    }
+
+    const data = await archive.extract(entry.path)
+    inflated += data.length
+    if (inflated > MAX_SCAN_BYTES) throw new DecompressionLimitError(MAX_SCAN_BYTES)
+
+    const nested = isZip(data) || isGzip(data)
+    if (nested || !isProbablyText(data)) {
+      report.skipped.push(entry.path)
+      files.push({ path, data, mtime: entry.mtime })
+      continue
+    }
+
+    const text = decoder.decode(data)
+    const result = redactText(text, rules, maskRuleIds)
+    report.filesScanned++
+    addFindings(report, result.findings, entry.path)
+
+    const entryChanged = result.text !== text
+    changed = changed || entryChanged
+    files.push({ path, data: entryChanged ? encoder.encode(result.text) : data, mtime: entry.mtime })
+  }
+
+  report.redacted = changed
+  if (!changed) return { report }
+
+  switch (archive.format) {
+    case "zip":
+      return { report, bytes: await createZip(files) }
+    case "tar":
+      return { report, bytes: createTar(files) }
+    case "tar.gz":
+      return { report, bytes: await gzip(createTar(files)) }
+    case "gzip":
+      return { report, bytes: await gzip(files[0].data) }
+  }
+}
+
+// Like redactBytes, but a file over the size limit is reported as skipped
+// before anything is read
+export async function redactBlob(
+  blob: Blob,
+  name: string,
+  rules: RedactionRule[],
+  maskRuleIds: string[]
+): Promise<{ report: RedactionReport; bytes?: Uint8Array }> {
+  if (blob.size > MAX_SCAN_BYTES) {
+    return { report: { ...emptyReport(maskRuleIds), skipped: [name] } }
+  }
+  return redactBytes(new Uint8Array(await blob.arrayBuffer()), name, rules, maskRuleIds)
+}
@@ -0,0 +1,63 @@
+import type { RedactionResponse } from "@/workers/redactionWorker"
+import type { RedactionReport, RedactionRule } from "./index"
+import { handleWorkerFailure } from "@/lib/workerFailure"
+
+interface PendingRedaction {
+  resolve: (result: { report: RedactionReport; blob?: Blob }) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, PendingRedaction>()
+
+const getWorker = () => {
+  if (worker) return worker
+
+  worker = new Worker(new URL("../../workers/redactionWorker.ts", import.meta.url), { type: "module" })
+  worker.onmessage = (event: MessageEvent<RedactionResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+
+    pending.delete(response.id)
+    if (response.type === "done") {
+      request.resolve({ report: response.report, blob: response.blob })
+    } else {
+      request.reject(new Error(response.message))
+    }
+  }
+
+  handleWorkerFailure(worker, "redaction", pending, () => {
+    worker = null
+  })
+
+  return worker
+}
+
+const send = (blob: Blob, name: string, rules: RedactionRule[], maskRuleIds: string[]) => {
+  const id = nextId++
+
+  return new Promise<{ report: RedactionReport; blob?: Blob }>((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    getWorker().postMessage({ id, blob, name, rules, maskRuleIds })
+  })
+}
+
+// Look for secrets and PII without changing anything
+export async function scanFile(blob: Blob, name: string, rules: RedactionRule[]): Promise<RedactionReport> {
+  const { report } = await send(blob, name, rules, [])
+  return report
+}
+
+// Mask the findings of the given rules. The original blob comes back when
+// there was nothing to mask.
+export async function redactFile(
+  blob: Blob,
+  name: string,
+  rules: RedactionRule[],
+  maskRuleIds: string[]
+): Promise<{ report: RedactionReport; blob: Blob }> {
+  const result = await send(blob, name, rules, maskRuleIds)
+  return { report: result.report, blob: result.blob ?? blob }
+}
@@ -0,0 +1,192 @@
+import { isGzip, isTar, isZip, openArchive } from "@/lib/archive"
+import { MAX_LINE_LENGTH } from "@/lib/log/lineIndex"
+import { MatchRange, WORD_PATTERN, normalizeRanges, tokenizeText } from "./fuzzy"
+
+// Full-text search inside files. Every text document (the file itself, or
+// each text file inside an archive) is indexed as the set of words it
+// contains; the index narrows a search down to the documents holding every
+// word, which are then scanned for the matching lines.
+
+// One indexed document. `path` is the entry path inside an archive, "" for
+// the file itself.
+export interface ContentDocument {
+  path: string
+  // Lower-cased, unique
+  terms: string[]
+}
+
+// Lower-cased search words, each matching the start of a word in the line,
+// and phrases the line has to contain verbatim
+export interface ContentQuery {
+  terms: string[]
+  phrases: string[]
+}
+
+// 0-based line number and the (possibly shortened) line, with the matched
+// parts as offsets into `text`
+export interface LineMatch {
+  line: number
+  text: string
+  ranges: MatchRange[]
+}
+
+export interface DocumentMatches {
+  path: string
+  // The first matching lines
+  matches: LineMatch[]
+  // Number of matching lines in the document
+  total: number
+}
+
+// Bigger documents are skipped, like in the log analyzer
+const MAX_INDEXED_BYTES = 64 * 1024 * 1024
+
+// Shorter words are too common to look up; longer ones are ids and blobs
+const MIN_TERM_LENGTH = 2
+const MAX_TERM_LENGTH = 64
+
+// Keeps a document full of unique ids from bloating the index
+const MAX_TERMS_PER_DOCUMENT = 200000
+
+// Snippets are cut to this many characters around the first match
+const SNIPPET_LENGTH = 160
+const SNIPPET_LEAD = 40
+
+const decoder = new TextDecoder()
+
+const isProbablyText = (bytes: Uint8Array) => !bytes.subarray(0, 8000).includes(0)
+
+// Calls `visit` with the text of every text document in the file: the file
+// itself, or the text entries of an archive. `paths` limits which ones.
+export async function forEachTextDocument(
+  bytes: Uint8Array,
+  name: string,
+  visit: (path: string, text: string) => void,
+  paths?: string[]
+): Promise<void> {
+  const readable = (data: Uint8Array) => isProbablyText(data) && data.length <= MAX_INDEXED_BYTES
+
+  const archive = isZip(bytes) || isGzip(bytes) || isTar(bytes) ? await openArchive(bytes, name) : null
+  if (!archive) {
+    if ((!paths || paths.includes("")) && readable(bytes)) visit("", decoder.decode(bytes))
+    return
+  }
+
+  for (const entry of archive.entries) {
+    if (entry.isDirectory || (paths && !paths.includes(entry.path))) continue
+
+    const data = await archive.extract(entry.path)
+    // Archives inside archives are not opened
+    if (isZip(data) || isGzip(data) || !readable(data)) continue
+
+    visit(entry.path, decoder.decode(data))
+  }
+}
+
+export const isIndexedTerm = (term: string) => term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH
+
+export function getContentTerms(text: string): string[] {
+  const terms = new Set<string>()
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const term = match[0].toLowerCase()
+    if (!isIndexedTerm(term)) continue
+
+    terms.add(term)
+    if (terms.size >= MAX_TERMS_PER_DOCUMENT) break
+  }
+  return Array.from(terms)
+}
+
+export async function indexTextDocuments(bytes: Uint8Array, name: string): Promise<ContentDocument[]> {
+  const documents: ContentDocument[] = []
+  await forEachTextDocument(bytes, name, (path, text) => {
+    documents.push({ path, terms: getContentTerms(text) })
+  })
+  return documents
+}
+
+// Words to look up in the index. Phrases are looked up by their words.
+export function getLookupTerms({ terms, phrases }: ContentQuery): string[] {
+  const words = [...terms, ...phrases.flatMap(phrase => tokenizeText(phrase).map(token => token.text))]
+  return Array.from(new Set(words.filter(isIndexedTerm)))
+}
+
+// Ranges of the line matching the query, or null when it does not match
+const matchLine = (line: string, { terms, phrases }: ContentQuery): MatchRange[] | null => {
+  const lower = line.toLowerCase()
+  // Cheap rejection before tokenizing
+  if (!terms.every(term => lower.includes(term)) || !phrases.every(phrase => lower.includes(phrase))) return null
+
+  const ranges: MatchRange[] = []
+  if (terms.length > 0) {
+    const tokens = tokenizeText(line)
+    for (const term of terms) {
+      const matching = tokens.filter(token => token.text.startsWith(term))
+      if (matching.length === 0) return null
+      matching.forEach(token => ranges.push([token.start, token.start + term.length]))
+    }
+  }
+
+  phrases.forEach(phrase => {
+    for (let offset = lower.indexOf(phrase); offset !== -1; offset = lower.indexOf(phrase, offset + phrase.length)) {
+      ranges.push([offset, offset + phrase.length])
+    }
+  })
+  return normalizeRanges(ranges)
+}
+
+// Long lines are cut around their first match
+const toSnippet = (line: string, ranges: MatchRange[]): { text: string; ranges: MatchRange[] } => {
+  if (line.length <= SNIPPET_LENGTH) return { text: line, ranges }
+
+  const start = Math.max(0, Math.min(ranges[0][0] - SNIPPET_LEAD, line.length - SNIPPET_LENGTH))
+  const end = start + SNIPPET_LENGTH
+  const prefix = start > 0 ? "…" : ""
+  const shift = prefix.length - start
+
+  return {
+    text: prefix + line.slice(start, end) + (end < line.length ? "…" : ""),
+    ranges: ranges
+      .filter(([from, to]) => to > start && from < end)
+      .map(([from, to]) => [Math.max(from, start) + shift, Math.min(to, end) + shift]),
+  }
+}
+
+// Lines are numbered like the log viewer numbers them
+export function findMatchingLines(text: string, query: ContentQuery, limit: number): { matches: LineMatch[]; total: number } {
+  const matches: LineMatch[] = []
+  let total = 0
+  let line = 0
+
+  for (let start = 0; start < text.length; line++) {
+    const newline = text.indexOf("\n", start)
+    const end = newline === -1 ? text.length : newline
+    let value = text.slice(start, Math.min(end, start + MAX_LINE_LENGTH))
+    if (value.endsWith("\r")) value = value.slice(0, -1)
+    start = end + 1
+
+    const ranges = matchLine(value, query)
+    if (!ranges) continue
+
+    total++
+    if (matches.length < limit) matches.push({ line, ...toSnippet(value, ranges) })
+  }
+
+  return { matches, total }
+}
+
+// Matching lines of the given documents of a file
+export async function searchTextDocuments(
+  bytes: Uint8Array,
+  name: string,
+  paths: string[],
+  query: ContentQuery,
+  limit: number
+): Promise<DocumentMatches[]> {
+  const results: DocumentMatches[] = []
+  await forEachTextDocument(bytes, name, (path, text) => {
+    const { matches, total } = findMatchingLines(text, query, limit)
+    if (total > 0) results.push({ path, matches, total })
+  }, paths)
+  return results
+}
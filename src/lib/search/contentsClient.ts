@@ -0,0 +1,68 @@
+import type { ContentIndexRequest, ContentIndexResponse } from "@/workers/contentIndexWorker"
+import type { ContentDocument, ContentQuery, DocumentMatches } from "./contents"
+import type { FileItem } from "@/components/FileUploader"
+import { handleWorkerFailure } from "@/lib/workerFailure"
+
+// Distributes Omit over the request union so each variant keeps its fields
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, { resolve: (response: ContentIndexResponse) => void; reject: (error: Error) => void }>()
+
+const getWorker = () => {
+  if (worker) return worker
+
+  worker = new Worker(new URL("../../workers/contentIndexWorker.ts", import.meta.url), { type: "module" })
+  worker.onmessage = (event: MessageEvent<ContentIndexResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+
+    pending.delete(response.id)
+    if (response.type === "error") {
+      request.reject(new Error(response.message))
+    } else {
+      request.resolve(response)
+    }
+  }
+
+  handleWorkerFailure(worker, "content index", pending, () => {
+    worker = null
+  })
+
+  return worker
+}
+
+const send = (request: DistributiveOmit<ContentIndexRequest, "id">): Promise<ContentIndexResponse> => {
+  const id = nextId++
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    getWorker().postMessage({ ...request, id })
+  })
+}
+
+// Words of every text document in the file, for the contents index. Without
+// a blob the file is a generated demo file, whose contents the worker builds.
+export async function indexContents(file: FileItem, blob?: Blob): Promise<ContentDocument[]> {
+  const response = await send({ type: "index", file, blob })
+  if (response.type !== "index") throw new Error("Unexpected content index worker response")
+
+  return response.documents
+}
+
+// Scan the given documents of a file for lines matching the query, keeping
+// the first `limit` of each
+export async function searchContents(
+  file: FileItem,
+  blob: Blob | undefined,
+  paths: string[],
+  query: ContentQuery,
+  limit: number
+): Promise<DocumentMatches[]> {
+  const response = await send({ type: "search", file, blob, paths, query, limit })
+  if (response.type !== "search") throw new Error("Unexpected content index worker response")
+
+  return response.documents
+}
@@ -0,0 +1,244 @@
+import { FileItem } from "@/components/FileUploader"
+
+// Ranked, typo-tolerant search over file names, contexts and tags. Text is
+// split into word tokens; every search term has to match some token, by
+// (in decreasing score) equality, prefix, numeronym (k8s = kubernetes),
+// edit distance or substring. Name matches weigh more than tags, and tags
+// more than the context.
+
+export type SearchField = "name" | "context" | "tags"
+
+// Offsets into the field text, end exclusive
+export type MatchRange = [number, number]
+
+export interface FileSearchMatch {
+  // Between 0 and 1, higher is better
+  score: number
+  ranges: Record<SearchField, MatchRange[]>
+}
+
+export interface FileSearchResult {
+  file: FileItem
+  match: FileSearchMatch
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 1,
+  tags: 0.85,
+  context: 0.7,
+}
+
+export const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[]
+
+// Tags are searched and highlighted as one space-separated string
+export function getFieldText(file: FileItem, field: SearchField): string {
+  if (field === "tags") return file.tags?.join(" ") ?? ""
+  return file[field] ?? ""
+}
+
+interface Token {
+  text: string
+  start: number
+  end: number
+}
+
+// Runs of letters and digits
+export const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+export function tokenizeText(text: string): Token[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    text: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }))
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps),
+// giving up once it exceeds `max`
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let best = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1)
+      }
+      best = Math.min(best, current[j])
+    }
+    if (best > max) return max + 1
+    previous2 = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Typos allowed for a term of this length; short terms must be exact
+const allowedEdits = (length: number) => (length >= 7 ? 2 : length >= 4 ? 1 : 0)
+
+const NUMERONYM = /^([a-z])(\d+)([a-z])$/
+
+interface TermMatch {
+  score: number
+  // Matched part of the token, relative to its start
+  start: number
+  end: number
+}
+
+export function matchTerm(term: string, token: string): TermMatch | null {
+  if (token === term) return { score: 1, start: 0, end: token.length }
+
+  if (term.length >= 2 && token.startsWith(term)) {
+    // "prod" is a better match for "prod" than for "production"
+    return { score: 0.7 + 0.2 * (term.length / token.length), start: 0, end: term.length }
+  }
+
+  const numeronym = NUMERONYM.exec(term)
+  if (numeronym && token.length === Number(numeronym[2]) + 2 && token[0] === numeronym[1] && token.endsWith(numeronym[3])) {
+    return { score: 0.85, start: 0, end: token.length }
+  }
+
+  const edits = allowedEdits(term.length)
+  if (edits > 0) {
+    const distance = editDistance(term, token, edits)
+    if (distance <= edits) return { score: 0.75 - 0.15 * distance, start: 0, end: token.length }
+
+    // A typo in a prefix: "prdo" for "production"
+    if (token.length > term.length) {
+      const prefixDistance = editDistance(term, token.slice(0, term.length), edits)
+      if (prefixDistance <= edits) return { score: 0.55 - 0.1 * prefixDistance, start: 0, end: term.length }
+    }
+  }
+
+  const offset = term.length >= 3 ? token.indexOf(term) : -1
+  if (offset !== -1) return { score: 0.4, start: offset, end: offset + term.length }
+
+  return null
+}
+
+interface Posting {
+  file: number
+  field: SearchField
+  start: number
+}
+
+// Merges overlapping ranges and sorts them
+export function normalizeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: MatchRange[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1])
+    else merged.push([...range])
+  }
+  return merged
+}
+
+export interface FileSearchIndex {
+  // Files matching every term and phrase, best first. Terms are single
+  // words; phrases must appear verbatim (case-insensitive) in one field.
+  search: (terms: string[], phrases?: string[]) => FileSearchResult[]
+}
+
+export function createFileSearchIndex(files: FileItem[]): FileSearchIndex {
+  // Token -> where it occurs. Matching scans the vocabulary rather than
+  // every file, and most tokens repeat across files.
+  const vocabulary = new Map<string, Posting[]>()
+  files.forEach((file, index) => {
+    for (const field of SEARCH_FIELDS) {
+      for (const token of tokenizeText(getFieldText(file, field))) {
+        let postings = vocabulary.get(token.text)
+        if (!postings) {
+          postings = []
+          vocabulary.set(token.text, postings)
+        }
+        postings.push({ file: index, field, start: token.start })
+      }
+    }
+  })
+
+  const search = (terms: string[], phrases: string[] = []): FileSearchResult[] => {
+    const normalizedTerms = terms.map(term => term.toLowerCase()).filter(Boolean)
+    const normalizedPhrases = phrases.map(phrase => phrase.toLowerCase()).filter(Boolean)
+    if (normalizedTerms.length === 0 && normalizedPhrases.length === 0) return []
+
+    // Best weighted score of every term, per file
+    const scores = new Map<number, number[]>()
+    const ranges = new Map<number, Record<SearchField, MatchRange[]>>()
+    const rangesOf = (file: number) => {
+      let fileRanges = ranges.get(file)
+      if (!fileRanges) {
+        fileRanges = { name: [], context: [], tags: [] }
+        ranges.set(file, fileRanges)
+      }
+      return fileRanges
+    }
+
+    normalizedTerms.forEach((term, termIndex) => {
+      vocabulary.forEach((postings, token) => {
+        const match = matchTerm(term, token)
+        if (!match) return
+
+        for (const posting of postings) {
+          let fileScores = scores.get(posting.file)
+          if (!fileScores) {
+            fileScores = new Array(normalizedTerms.length).fill(0)
+            scores.set(posting.file, fileScores)
+          }
+          fileScores[termIndex] = Math.max(fileScores[termIndex], match.score * FIELD_WEIGHTS[posting.field])
+          rangesOf(posting.file)[posting.field].push([posting.start + match.start, posting.start + match.end])
+        }
+      })
+    })
+
+    const candidates = normalizedTerms.length > 0
+      ? Array.from(scores.keys()).filter(file => scores.get(file)!.every(score => score > 0))
+      : files.map((_, index) => index)
+
+    const results: FileSearchResult[] = []
+    for (const index of candidates) {
+      const file = files[index]
+      let total = scores.get(index)?.reduce((sum, score) => sum + score, 0) ?? 0
+      let matchesPhrases = true
+
+      for (const phrase of normalizedPhrases) {
+        let best = 0
+        for (const field of SEARCH_FIELDS) {
+          const offset = getFieldText(file, field).toLowerCase().indexOf(phrase)
+          if (offset === -1) continue
+          best = Math.max(best, FIELD_WEIGHTS[field])
+          rangesOf(index)[field].push([offset, offset + phrase.length])
+        }
+        if (best === 0) matchesPhrases = false
+        total += best
+      }
+      if (!matchesPhrases) continue
+
+      const fileRanges = rangesOf(index)
+      results.push({
+        file,
+        match: {
+          score: total / (normalizedTerms.length + normalizedPhrases.length),
+          ranges: {
+            name: normalizeRanges(fileRanges.name),
+            context: normalizeRanges(fileRanges.context),
+            tags: normalizeRanges(fileRanges.tags),
+          },
+        },
+      })
+    }
+
+    // Ties are ordered by name, then id, so paging is stable
+    return results.sort((a, b) =>
+      b.match.score - a.match.score ||
+      a.file.name.localeCompare(b.file.name, undefined, { numeric: true }) ||
+      (a.file.id < b.file.id ? -1 : a.file.id > b.file.id ? 1 : 0))
+  }
+
+  return { search }
+}
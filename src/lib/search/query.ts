@@ -0,0 +1,388 @@
+import { endOfDay, startOfDay } from "date-fns"
+import { FileItem } from "@/components/FileUploader"
+import { FileUploadStatus } from "@/types/file"
+import { FILE_TYPE_REGISTRY, FileTypeDefinition, getFileTypeDefinition } from "@/lib/fileTypeRegistry"
+import { FileSearchMatch, SEARCH_FIELDS, createFileSearchIndex, editDistance, getFieldText, tokenizeText } from "./fuzzy"
+
+// Search query language for the file list:
+//
+//   type:json size:>5MB status:failed modified:<7d "exact phrase" -exclude
+//
+// Plain words are matched fuzzily against the name, context and tags, and
+// rank the results (see fuzzy.ts). "Quoted phrases" must appear verbatim.
+// A leading "-" negates any clause; negated words are matched verbatim.
+// Filters on the same field are combined with OR for type and status
+// (type:json type:yaml) and AND otherwise (size:>1MB size:<10MB).
+// Malformed clauses are reported and ignored. A word before a colon that is
+// not a filter name is plain text, so pasted lines like "Error: connection
+// refused" can be searched; a likely misspelt filter name gets a hint.
+
+export type QueryField = "type" | "size" | "status" | "modified"
+
+export type Comparison = ">" | ">=" | "<" | "<="
+
+export interface QueryError {
+  // Offsets into the query, end exclusive
+  start: number
+  end: number
+  message: string
+}
+
+export type QueryClause = { negated: boolean } & (
+  // Lower case; `exact` for quoted phrases
+  | { kind: "text"; value: string; exact: boolean }
+  | { kind: "type"; mimeTypes: string[] }
+  | { kind: "status"; statuses: FileUploadStatus[] }
+  | { kind: "size"; op: Comparison; bytes: number }
+  // Epoch milliseconds, both inclusive
+  | { kind: "modified"; from?: number; to?: number }
+)
+
+export interface ParsedQuery {
+  clauses: QueryClause[]
+  errors: QueryError[]
+  // Notes that do not change the results, like "did you mean type:?"
+  hints: QueryError[]
+}
+
+export const QUERY_FIELDS: Array<{ field: QueryField; description: string; examples: string[] }> = [
+  { field: "type", description: "File type", examples: [] },
+  { field: "size", description: "Compare the file size", examples: [">5MB", "<100KB", ">=1GB"] },
+  { field: "status", description: "Upload status", examples: [] },
+  { field: "modified", description: "Last modified, as an age or a date", examples: ["<24h", "<7d", ">30d", ">=2024-01-31"] },
+]
+
+const STATUS_NAMES: Record<string, FileUploadStatus> = {
+  complete: FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE,
+  ready: FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE,
+  failed: FileUploadStatus.FILE_UPLOAD_STATUS_FAILED,
+  uploading: FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS,
+  paused: FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED,
+  resuming: FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING,
+  queued: FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED,
+}
+
+export const STATUS_VALUES = Object.keys(STATUS_NAMES)
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+
+// Names a type can be searched by: its label and its extensions
+const getTypeNames = (definition: FileTypeDefinition) => [
+  definition.label.toLowerCase().replace(/\s+/g, ""),
+  ...definition.extensions.map(extension => extension.slice(1)),
+]
+
+// "archive" covers every archive format, not just the one labelled so
+const findMimeTypes = (name: string): string[] =>
+  FILE_TYPE_REGISTRY
+    .filter(definition =>
+      getTypeNames(definition).includes(name) ||
+      definition.mimeType === name ||
+      (name === "archive" && definition.viewer === "archive"))
+    .map(definition => definition.mimeType)
+
+export const TYPE_VALUES = Array.from(new Set(FILE_TYPE_REGISTRY.map(definition => getTypeNames(definition)[0])))
+
+interface Token {
+  text: string
+  start: number
+  end: number
+  negated: boolean
+  // Part before the first colon, when it names a field
+  field?: QueryField
+  // Unquoted value (after the field and colon, if any)
+  value: string
+  // Offset of the value, for error highlighting
+  valueStart: number
+  quoted: boolean
+}
+
+const FIELD_PATTERN = /^([a-z]+):/i
+
+// Splits on whitespace outside quotes. An unclosed quote runs to the end.
+const tokenize = (query: string): { tokens: Token[]; errors: QueryError[]; hints: QueryError[] } => {
+  const tokens: Token[] = []
+  const errors: QueryError[] = []
+  const hints: QueryError[] = []
+  let i = 0
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    let inQuotes = false
+    let quoteStart = -1
+    while (i < query.length && (inQuotes || !/\s/.test(query[i]))) {
+      if (query[i] === '"') {
+        inQuotes = !inQuotes
+        if (inQuotes) quoteStart = i
+      }
+      i++
+    }
+    if (inQuotes) {
+      errors.push({ start: quoteStart, end: query.length, message: "Missing closing quote" })
+    }
+
+    const text = query.slice(start, i)
+    const negated = text.length > 1 && text.startsWith("-")
+    let body = negated ? text.slice(1) : text
+
+    let field: QueryField | undefined
+    const fieldMatch = FIELD_PATTERN.exec(body)
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase()
+      if (QUERY_FIELDS.some(item => item.field === name)) {
+        field = name as QueryField
+        body = body.slice(fieldMatch[0].length)
+      } else {
+        const similar = QUERY_FIELDS.find(item => editDistance(name, item.field, 1) <= 1)
+        if (similar) {
+          hints.push({
+            start: start + (negated ? 1 : 0),
+            end: start + (negated ? 1 : 0) + fieldMatch[1].length,
+            message: `Searching for "${fieldMatch[0]}" as text. Did you mean ${similar.field}:?`,
+          })
+        }
+      }
+    }
+
+    const value = body.replace(/^"|"$/g, "")
+    tokens.push({ text, start, end: i, negated, field, value, valueStart: i - body.length, quoted: body.startsWith('"') })
+  }
+
+  return { tokens, errors, hints }
+}
+
+const COMPARISON = /^(>=|<=|>|<)?(.*)$/
+
+const parseSize = (value: string): { op: Comparison; bytes: number } | string => {
+  const [, op, rest] = COMPARISON.exec(value)!
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(rest)
+  if (!match) return `"${value}" is not a size. Try size:>5MB`
+
+  const unit = match[2].toLowerCase() || "b"
+  if (!(unit in SIZE_UNITS)) return `Unknown size unit "${match[2]}". Use B, KB, MB, GB or TB`
+  if (!op) return `Add > or < to compare sizes, e.g. size:>${rest}`
+
+  return { op: op as Comparison, bytes: Number(match[1]) * SIZE_UNITS[unit] }
+}
+
+const parseModified = (value: string, now: number): { from?: number; to?: number } | string => {
+  const [, op, rest] = COMPARISON.exec(value)!
+
+  const duration = /^(\d+)([a-z]+)$/i.exec(rest)
+  if (duration && duration[2].toLowerCase() in DURATION_UNITS) {
+    // An age: <7d is newer than seven days, >7d older; a bare age means "within"
+    const threshold = now - Number(duration[1]) * DURATION_UNITS[duration[2].toLowerCase()]
+    return op?.startsWith(">") ? { to: threshold } : { from: threshold }
+  }
+
+  const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(rest)
+  if (date) {
+    const day = new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3]))
+    if (Number.isNaN(day.getTime()) || day.getDate() !== Number(date[3])) return `"${rest}" is not a valid date`
+
+    switch (op) {
+      case ">": return { from: endOfDay(day).getTime() + 1 }
+      case ">=": return { from: day.getTime() }
+      case "<": return { to: day.getTime() - 1 }
+      case "<=": return { to: endOfDay(day).getTime() }
+      default: return { from: startOfDay(day).getTime(), to: endOfDay(day).getTime() }
+    }
+  }
+
+  return `"${value}" is not an age or a date. Try modified:<7d or modified:>=2024-01-31`
+}
+
+export function parseQuery(query: string, now = Date.now()): ParsedQuery {
+  const { tokens, errors, hints } = tokenize(query)
+  const clauses: QueryClause[] = []
+
+  for (const token of tokens) {
+    const { negated, value } = token
+    const fail = (message: string) => errors.push({ start: token.valueStart, end: token.end, message })
+
+    if (!token.field) {
+      if (value) clauses.push({ kind: "text", value: value.toLowerCase(), exact: token.quoted, negated })
+      continue
+    }
+
+    if (!value) {
+      errors.push({ start: token.start, end: token.end, message: `Missing a value after ${token.field}:` })
+      continue
+    }
+
+    const lower = value.toLowerCase()
+    switch (token.field) {
+      case "type": {
+        const mimeTypes = findMimeTypes(lower)
+        if (mimeTypes.length === 0) fail(`Unknown type "${value}". Try ${TYPE_VALUES.slice(0, 5).join(", ")}…`)
+        else clauses.push({ kind: "type", mimeTypes, negated })
+        break
+      }
+      case "status": {
+        const status = STATUS_NAMES[lower]
+        if (!status) fail(`Unknown status "${value}". Use ${STATUS_VALUES.join(", ")}`)
+        else clauses.push({ kind: "status", statuses: [status], negated })
+        break
+      }
+      case "size": {
+        const size = parseSize(value)
+        if (typeof size === "string") fail(size)
+        else clauses.push({ kind: "size", ...size, negated })
+        break
+      }
+      case "modified": {
+        const range = parseModified(value, now)
+        if (typeof range === "string") fail(range)
+        else clauses.push({ kind: "modified", ...range, negated })
+        break
+      }
+    }
+  }
+
+  return { clauses, errors: errors.sort((a, b) => a.start - b.start), hints }
+}
+
+const compare = (value: number, op: Comparison, threshold: number) => {
+  switch (op) {
+    case ">": return value > threshold
+    case ">=": return value >= threshold
+    case "<": return value < threshold
+    case "<=": return value <= threshold
+  }
+}
+
+const matchesClause = (file: FileItem, clause: QueryClause): boolean => {
+  switch (clause.kind) {
+    case "text":
+      return SEARCH_FIELDS.some(field => getFieldText(file, field).toLowerCase().includes(clause.value))
+    case "type":
+      return clause.mimeTypes.includes(getFileTypeDefinition(file.type).mimeType)
+    case "status":
+      return clause.statuses.includes(file.status)
+    case "size":
+      return compare(file.size, clause.op, clause.bytes)
+    case "modified":
+      return (clause.from === undefined || file.lastModified >= clause.from) &&
+        (clause.to === undefined || file.lastModified <= clause.to)
+  }
+}
+
+// Every clause except the search words and phrases, which searchFiles ranks
+const matchesFilters = (file: FileItem, clauses: QueryClause[]): boolean => {
+  // Positive type and status clauses are alternatives to each other
+  const alternatives = (kind: "type" | "status") => clauses.filter(clause => clause.kind === kind && !clause.negated)
+  for (const kind of ["type", "status"] as const) {
+    const options = alternatives(kind)
+    if (options.length > 0 && !options.some(clause => matchesClause(file, clause))) return false
+  }
+
+  return clauses.every(clause => {
+    if (clause.kind !== "text" && clause.kind !== "type" && clause.kind !== "status") {
+      return matchesClause(file, clause) !== clause.negated
+    }
+    // Words and phrases are left to the search index
+    return clause.negated ? !matchesClause(file, clause) : true
+  })
+}
+
+// Search words (lower-cased) and quoted phrases of the query
+export function getSearchText({ clauses }: ParsedQuery): { terms: string[]; phrases: string[] } {
+  const searches = clauses.filter(clause => clause.kind === "text" && !clause.negated)
+  return {
+    terms: searches.flatMap(clause =>
+      clause.kind === "text" && !clause.exact ? tokenizeText(clause.value).map(token => token.text) : []),
+    phrases: searches.flatMap(clause => (clause.kind === "text" && clause.exact ? [clause.value] : [])),
+  }
+}
+
+// Files passing the filters and exclusions of the query, whatever its
+// search words
+export function filterFiles(files: FileItem[], { clauses }: ParsedQuery): FileItem[] {
+  return files.filter(file => matchesFilters(file, clauses))
+}
+
+// Files matching the query. When it has search words or phrases, the files
+// come back ranked, best first, with what matched in each of them.
+export function searchFiles(
+  files: FileItem[],
+  query: ParsedQuery
+): { files: FileItem[]; matches?: Record<string, FileSearchMatch> } {
+  const candidates = filterFiles(files, query)
+
+  const { terms, phrases } = getSearchText(query)
+  if (terms.length === 0 && phrases.length === 0) return { files: candidates }
+
+  const results = createFileSearchIndex(candidates).search(terms, phrases)
+  return {
+    files: results.map(result => result.file),
+    matches: Object.fromEntries(results.map(result => [result.file.id, result.match])),
+  }
+}
+
+export function matchesQuery(file: FileItem, query: ParsedQuery): boolean {
+  return searchFiles([file], query).files.length > 0
+}
+
+export interface QuerySuggestion {
+  // Replaces the token under the cursor
+  value: string
+  label: string
+  description?: string
+}
+
+// Completions for the token that ends at `cursor`: field names while typing
+// a word, values after "field:"
+export function getQuerySuggestions(
+  query: string,
+  cursor: number
+): { start: number; end: number; suggestions: QuerySuggestion[] } {
+  const before = query.slice(0, cursor)
+  const start = before.search(/\S*$/)
+  const after = /^\S*/.exec(query.slice(cursor))![0]
+  const end = cursor + after.length
+  const token = query.slice(start, end)
+
+  const prefix = token.startsWith("-") ? "-" : ""
+  const body = token.slice(prefix.length).toLowerCase()
+  const fieldMatch = FIELD_PATTERN.exec(body)
+
+  if (!fieldMatch) {
+    if (body.includes('"')) return { start, end, suggestions: [] }
+
+    const suggestions = QUERY_FIELDS
+      .filter(item => item.field.startsWith(body) && item.field !== body)
+      .map(item => ({ value: `${prefix}${item.field}:`, label: `${item.field}:`, description: item.description }))
+    return { start, end, suggestions }
+  }
+
+  const field = fieldMatch[1] as QueryField
+  const partial = body.slice(fieldMatch[0].length)
+  const values = field === "type"
+    ? TYPE_VALUES
+    : field === "status"
+      ? STATUS_VALUES
+      : QUERY_FIELDS.find(item => item.field === field)?.examples ?? []
+
+  const suggestions = values
+    .filter(value => value.startsWith(partial) && value !== partial)
+    .map(value => ({ value: `${prefix}${field}:${value} `, label: `${field}:${value}` }))
+  return { start, end, suggestions }
+}
@@ -0,0 +1,100 @@
+// CSV parsing for the grid viewer (RFC 4180: quoted fields may contain
+// delimiters, line breaks and doubled quotes).
+
+export interface CsvTable {
+  columns: string[]
+  rows: string[][]
+}
+
+const DELIMITERS = [",", ";", "\t", "|"]
+
+// The candidate that splits the first line into the most fields
+export function detectDelimiter(text: string): string {
+  const end = text.indexOf("\n")
+  const firstLine = end === -1 ? text : text.slice(0, end)
+
+  let best = ","
+  let bestCount = 0
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+  return best
+}
+
+// The first record is the header. Rows are padded or cut to its width.
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): CsvTable {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let quoted = false
+  // Skip a byte order mark
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  // Blank lines carry no data
+  const nonEmpty = records.filter(fields => fields.length > 1 || fields[0] !== "")
+  if (nonEmpty.length === 0) return { columns: [], rows: [] }
+
+  const [header, ...rows] = nonEmpty
+  const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`)
+  return {
+    columns,
+    rows: rows.map(row =>
+      row.length === columns.length
+        ? row
+        : columns.map((_, index) => row[index] ?? "")
+    ),
+  }
+}
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i
+
+// Numbers sort numerically, everything else as text; empty cells go last
+export function compareCells(a: string, b: string): number {
+  if (a === "" || b === "") return a === b ? 0 : a === "" ? 1 : -1
+
+  const trimmedA = a.trim()
+  const trimmedB = b.trim()
+  if (NUMBER.test(trimmedA) && NUMBER.test(trimmedB)) {
+    return Number(trimmedA) - Number(trimmedB)
+  }
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" })
+}
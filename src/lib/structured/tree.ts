@@ -0,0 +1,95 @@
+import { parseAllDocuments } from "yaml"
+
+// JSON and YAML documents as a browsable tree. Nodes are addressed by their
+// path from the root, formatted as JSONPath ($.spec.containers[0].name).
+
+export type TreePath = Array<string | number>
+
+export type StructuredFormat = "json" | "yaml"
+
+// Line of a character offset, 1-based
+const lineAt = (text: string, offset: number) => text.slice(0, offset).split("\n").length
+
+const parseError = (message: string, line?: number) => new Error(line ? `Line ${line}: ${message}` : message)
+
+// YAML streams with several documents (---) become an array of them
+export function parseStructured(text: string, format: StructuredFormat): unknown {
+  if (format === "json") {
+    try {
+      return JSON.parse(text)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Invalid JSON"
+      const position = /position (\d+)/.exec(message)
+      throw parseError(message, position ? lineAt(text, Number(position[1])) : undefined)
+    }
+  }
+
+  const documents = parseAllDocuments(text, { prettyErrors: false })
+  if (!Array.isArray(documents)) return null
+
+  const error = documents.flatMap(document => document.errors)[0]
+  if (error) throw parseError(error.message.split("\n")[0], lineAt(text, error.pos[0]))
+
+  const values = documents.map(document => document.toJS({ maxAliasCount: 1000 }))
+  return values.length === 1 ? values[0] : values
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+export function formatPath(path: TreePath): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === "number") return `${result}[${key}]`
+    return IDENTIFIER.test(key) ? `${result}.${key}` : `${result}[${JSON.stringify(key)}]`
+  }, "$")
+}
+
+export const isContainer = (value: unknown): value is object => typeof value === "object" && value !== null
+
+// Keys of an object or indexes of an array, in document order
+export function getChildKeys(value: unknown): Array<string | number> {
+  if (Array.isArray(value)) return value.map((_, index) => index)
+  return isContainer(value) ? Object.keys(value) : []
+}
+
+export function formatPrimitive(value: unknown): string {
+  if (typeof value === "string") return JSON.stringify(value)
+  if (value instanceof Date) return value.toISOString()
+  return String(value)
+}
+
+export interface TreeSearchResult {
+  // Formatted paths of matching nodes, in document order
+  matches: string[]
+  // Formatted paths of the containers to expand so every match is visible
+  ancestors: Set<string>
+}
+
+// Case-insensitive search through keys and primitive values
+export function searchTree(value: unknown, query: string, limit = 1000): TreeSearchResult {
+  const needle = query.toLowerCase()
+  const matches: string[] = []
+  const ancestors = new Set<string>()
+
+  const visit = (node: unknown, path: TreePath, parents: string[]): boolean => {
+    if (matches.length >= limit) return false
+
+    const key = path[path.length - 1]
+    const formatted = formatPath(path)
+    const keyMatches = key !== undefined && String(key).toLowerCase().includes(needle)
+    const valueMatches = !isContainer(node) && formatPrimitive(node).toLowerCase().includes(needle)
+    if (keyMatches || valueMatches) {
+      matches.push(formatted)
+      parents.forEach(parent => ancestors.add(parent))
+    }
+
+    if (isContainer(node) && !(node instanceof Date)) {
+      for (const child of getChildKeys(node)) {
+        if (!visit((node as Record<string | number, unknown>)[child], [...path, child], [...parents, formatted])) break
+      }
+    }
+    return matches.length < limit
+  }
+
+  if (needle) visit(value, [], [])
+  return { matches, ancestors }
+}
@@ -0,0 +1,25 @@
+// Worker clients keep their requests in a `pending` map until the worker
+// answers. When the worker crashes, fails to load or sends a message that
+// cannot be read, no answer ever comes: every request in flight is rejected
+// instead, and `onFailed` drops the worker so the next request starts a new
+// one.
+export function handleWorkerFailure(
+  worker: Worker,
+  name: string,
+  pending: Map<number, { reject: (error: Error) => void }>,
+  onFailed: () => void
+): void {
+  const fail = (message: string) => {
+    worker.terminate()
+    onFailed()
+    const requests = Array.from(pending.values())
+    pending.clear()
+    requests.forEach(request => request.reject(new Error(message)))
+  }
+
+  worker.onerror = (event) => {
+    event.preventDefault()
+    fail(event.message ? `The ${name} worker failed: ${event.message}` : `The ${name} worker failed to start`)
+  }
+  worker.onmessageerror = () => fail(`Could not read the ${name} worker response`)
+}
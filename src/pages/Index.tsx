@@ -1,50 +1,66 @@
 import React, { useState, useEffect, useRef } from "react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import ChatInput from "@/components/ChatInput";
 import { useToast } from "@/hooks/use-toast";
 import { FileItem } from "@/components/FileUploader";
-import { Moon, Sun, File, ChevronDown, RefreshCw, Share2, ThumbsUp, ThumbsDown, MoreHorizontal, Eye, Copy, Terminal, Table, Search, Trash2, X } from "lucide-react";
+import { Moon, Sun, File, ChevronDown, Loader2, RefreshCw, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useTheme } from "@/components/ThemeProvider";
-import { deleteFile, getSubmittedFiles, submitFile, analyzeFile } from "@/services/fileService";
+import { deleteFile, getFile, getSubmittedFiles, analyzeFile, getFileAnalyses } from "@/services/fileService";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Input } from "@/components/ui/input";
-import { FileUploadStatus } from "@/types/file";
+import { FileUploadStatus, getUploadStatusLabel, isUploadActive } from "@/types/file";
 import { cn } from "@/lib/utils";
 import { FileGrid } from "@/components/FileGrid";
-
-interface ChatMessage {
-  id: string;
-  content: string;
-  timestamp: Date;
-  sender: "user" | "assistant";
-  file?: FileItem | null;
-}
-
-interface DiagnosticResult {
-  summary: string;
-  insights?: string[];
-  recommendations?: string[];
-  tables?: Array<{
-    id: string;
-    name: string;
-    columns: string[];
-    data: string[][];
-  }>;
-}
+import { FileSearchInput, FileSearchMode } from "@/components/file/FileSearchInput";
+import { UploadQueueIndicator } from "@/components/UploadQueueIndicator";
+import { DuplicateFileDialog } from "@/components/DuplicateFileDialog";
+import { enqueueUpload, resolveDuplicate, subscribeToUploadEvents } from "@/services/uploadQueue";
+import { useUploadQueue } from "@/hooks/useUploadQueue";
+import { applyAnalysisEvent } from "@/services/analysisStream";
+import { DiagnosticResultCard } from "@/components/DiagnosticResultCard";
+import { DIAGNOSTIC_RESULT_VERSION, DiagnosticResult } from "@/types/diagnosticResult";
+import { ChatMessage, ChatSession } from "@/types/session";
+import { useNavigate, useParams } from "react-router-dom";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { SessionSidebar } from "@/components/SessionSidebar";
+import { createSession, getSession, saveSessionMessages } from "@/services/sessionService";
+import { TimeRange } from "@/services/adapters/types";
+import { formatTimeRange } from "@/lib/log/timestamp";
 
 const Index = () => {
   const { toast } = useToast();
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
   const { theme, setTheme } = useTheme();
   const [submittedFiles, setSubmittedFiles] = useState<FileItem[]>([]);
   const [searchQuery, setSearchQuery] = useState<string>("");
+  const [searchMode, setSearchMode] = useState<FileSearchMode>("files");
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [activeFile, setActiveFile] = useState<FileItem | null>(null);
+  // Files the next question is about; shown as chips in the chat input
+  const [contextFiles, setContextFiles] = useState<FileItem[]>([]);
+  // Time window picked on a result timeline; applies to the next question only
+  const [timeRange, setTimeRange] = useState<TimeRange | null>(null);
+  // Result the window was picked on; the other timelines have unrelated axes
+  const [timeRangeMessageId, setTimeRangeMessageId] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
-  const [diagnosticResults, setDiagnosticResults] = useState<DiagnosticResult | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  // Session the messages on screen belong to. It is set before the URL
+  // changes when the first question creates a session.
+  const currentSessionIdRef = useRef<string | undefined>(undefined);
+  // Last message list read from or written to the session store
+  const savedMessagesRef = useRef<ChatMessage[]>(chatMessages);
   const [isFileInfoExpanded, setIsFileInfoExpanded] = useState<boolean>(false);
   const [isFileListExpanded, setIsFileListExpanded] = useState<boolean>(true);
   const [isUploadPopupOpen, setIsUploadPopupOpen] = useState<boolean>(false);
+  const { jobs: uploadJobs } = useUploadQueue();
+  // Duplicates waiting for an answer, in arrival order; the dialog shows the
+  // first one and the next appears once it is resolved
+  const [duplicatePrompts, setDuplicatePrompts] = useState<Array<{
+    file: FileItem;
+    existingFile: FileItem;
+    analyses: DiagnosticResult[];
+  }>>([]);
+  const duplicatePrompt = duplicatePrompts[0] ?? null;
 
   useEffect(() => {
     const fetchFiles = async () => {
@@ -55,6 +71,81 @@ const Index = () => {
     fetchFiles();
   }, []);
 
+  // Load the conversation of the session in the URL
+  useEffect(() => {
+    if (sessionId === currentSessionIdRef.current) return;
+
+    analysisControllerRef.current?.abort();
+    currentSessionIdRef.current = sessionId;
+    // Cleared right away so late updates of the previous session find
+    // nothing to change
+    savedMessagesRef.current = [];
+    setChatMessages(savedMessagesRef.current);
+    // A window picked on another session's timeline means nothing here
+    setTimeRange(null);
+
+    if (!sessionId) return;
+
+    let cancelled = false;
+    // Follow-up questions are about the files the session talked about;
+    // deleted ones are left out
+    const restoreSessionFiles = async (fileIds: string[]) => {
+      const files = (await Promise.all(fileIds.map(id => getFile(id)))).filter((file): file is FileItem => !!file);
+      if (cancelled) return;
+
+      setContextFiles(files);
+      setActiveFile(files[0] ?? null);
+    };
+    const leaveMissingSession = () => {
+      toast({
+        title: "Session not found",
+        description: "It may have been deleted.",
+        variant: "destructive",
+      });
+      navigate("/", { replace: true });
+    };
+
+    getSession(sessionId)
+      .then(session => {
+        if (cancelled) return;
+
+        if (!session) {
+          leaveMissingSession();
+          return;
+        }
+
+        savedMessagesRef.current = session.messages;
+        setChatMessages(session.messages);
+        restoreSessionFiles(session.fileIds).catch(error => {
+          console.error("Error restoring session files:", error);
+        });
+      })
+      .catch(error => {
+        console.error("Error loading session:", error);
+        if (!cancelled) leaveMissingSession();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, navigate, toast]);
+
+  // Persist the conversation whenever an answer has finished
+  useEffect(() => {
+    const id = currentSessionIdRef.current;
+    if (!id || chatMessages === savedMessagesRef.current || chatMessages.some(m => m.streaming)) return;
+
+    savedMessagesRef.current = chatMessages;
+    saveSessionMessages(id, chatMessages).catch(error => {
+      console.error("Error saving session:", error);
+      toast({
+        title: "Could not save the conversation",
+        description: "The latest messages are not stored and will be gone after a reload.",
+        variant: "destructive",
+      });
+    });
+  }, [chatMessages, toast]);
+
   const handleDeleteFile = async (fileToDelete: FileItem) => {
     try {
       const success = await deleteFile(fileToDelete.id || '');
@@ -65,6 +156,7 @@ const Index = () => {
         if (activeFile && activeFile.id === fileToDelete.id) {
           setActiveFile(null);
         }
+        setContextFiles(prev => prev.filter(file => file.id !== fileToDelete.id));
         
         toast({
           title: "File deleted",
@@ -80,120 +172,231 @@ const Index = () => {
     }
   };
 
-  const handleSendMessage = async (message: string, file: FileItem | null) => {
+  // No-op once the message is gone, e.g. after switching sessions
+  const updateChatMessage = (id: string, changes: Partial<ChatMessage>) => {
+    setChatMessages(prev => prev.some(m => m.id === id)
+      ? prev.map(m => m.id === id ? { ...m, ...changes } : m)
+      : prev
+    );
+  };
+
+  // A plain click makes the file the only context of the next question
+  const handleFileSelect = (file: FileItem) => {
+    setActiveFile(file);
+    setContextFiles([file]);
+  };
+
+  const handleToggleContextFile = (file: FileItem) => {
+    if (contextFiles.some(f => f.id === file.id)) {
+      setContextFiles(contextFiles.filter(f => f.id !== file.id));
+    } else {
+      setContextFiles([...contextFiles, file]);
+      setActiveFile(file);
+    }
+  };
+
+  const handleSendMessage = async (message: string, files: FileItem[]) => {
     const userMessageId = crypto.randomUUID();
     const userMessage: ChatMessage = {
       id: userMessageId,
       content: message,
       timestamp: new Date(),
       sender: "user",
-      file: file || activeFile,
+      files,
+      timeRange: timeRange ?? undefined,
     };
     
     setChatMessages(prev => [...prev, userMessage]);
+    setTimeRange(null);
     
-    if (file && !activeFile) {
-      setActiveFile(file);
+    // The first question of a new investigation starts a session
+    if (!currentSessionIdRef.current) {
+      let session: ChatSession;
+      try {
+        session = await createSession(userMessage);
+      } catch (error) {
+        console.error("Error creating session:", error);
+        // Take the question back so it is not left without a session or answer
+        setChatMessages(prev => prev.filter(m => m.id !== userMessageId));
+        setTimeRange(userMessage.timeRange ?? null);
+        toast({
+          title: "Could not start a session",
+          description: "Your question was not sent. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      currentSessionIdRef.current = session.id;
+      savedMessagesRef.current = session.messages;
+      navigate(`/sessions/${session.id}`);
     }
     
-    setIsAnalyzing(true);
+    if (files.length > 0 && !activeFile) {
+      setActiveFile(files[0]);
+    }
     
-    try {
-      let analysisResult;
-      
-      if (userMessage.file) {
-        analysisResult = await analyzeFile(userMessage.file.id || '', message);
-      } else {
-        // Handle case when no file is selected
-        analysisResult = {
-          summary: "No diagnostic file was selected for analysis. Please upload or select a file first.",
-        };
-      }
-      
-      setDiagnosticResults(analysisResult);
-      
-      const assistantMessage: ChatMessage = {
+    if (files.length === 0) {
+      // Handle case when no file is selected
+      setChatMessages(prev => [...prev, {
         id: crypto.randomUUID(),
-        content: "I've analyzed your diagnostic file. Here's what I found:",
+        content: "No diagnostic file was selected for analysis. Please upload or select a file first.",
         timestamp: new Date(),
         sender: "assistant",
-      };
+      }]);
+      return;
+    }
+    
+    // The answer streams into this message: the summary becomes its text and
+    // the other sections fill its result card as they arrive
+    const assistantMessageId = crypto.randomUUID();
+    setChatMessages(prev => [...prev, {
+      id: assistantMessageId,
+      content: "",
+      timestamp: new Date(),
+      sender: "assistant",
+      streaming: true,
+    }]);
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    setIsAnalyzing(true);
+    
+    let partial: DiagnosticResult = { version: DIAGNOSTIC_RESULT_VERSION, summary: "" };
+    
+    try {
+      const analysisResult = await analyzeFile(files.map(f => f.id), message, {
+        signal: controller.signal,
+        timeRange: userMessage.timeRange,
+        onEvent: (event) => {
+          partial = applyAnalysisEvent(partial, event);
+          updateChatMessage(assistantMessageId, { content: partial.summary, result: partial });
+        },
+      });
       
-      setChatMessages(prev => [...prev, assistantMessage]);
+      updateChatMessage(assistantMessageId, {
+        content: analysisResult.summary || "The analysis did not include a summary.",
+        result: analysisResult,
+        streaming: false,
+      });
       
       toast({
         title: "Analysis complete",
         description: "Your diagnostic file has been analyzed.",
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user pressed Stop
+        updateChatMessage(assistantMessageId, { streaming: false, stopped: true });
+        return;
+      }
+      
       toast({
         title: "Analysis failed",
         description: "There was an error analyzing your file. Please try again.",
         variant: "destructive",
       });
       
-      const errorMessage: ChatMessage = {
-        id: crypto.randomUUID(),
+      updateChatMessage(assistantMessageId, {
         content: "I encountered an error while analyzing your file. Please try again with a different file or query.",
-        timestamp: new Date(),
-        sender: "assistant",
-      };
-      
-      setChatMessages(prev => [...prev, errorMessage]);
+        streaming: false,
+      });
     } finally {
-      setIsAnalyzing(false);
+      if (analysisControllerRef.current === controller) {
+        analysisControllerRef.current = null;
+        setIsAnalyzing(false);
+      }
     }
   };
 
-  const handleFileSubmit = async (file: FileItem) => {
-    try {
-      const submittedFile: FileItem = {
-        ...file,
-        status: FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS,
-        progress: 0
-      };
+  const handleStopAnalysis = () => {
+    analysisControllerRef.current?.abort();
+  };
 
-      setSubmittedFiles(prev => [submittedFile, ...prev]);
-      
-      // Submit the file
-      const uploadedFile = await submitFile(file);
-
-      // Update the file status
-      setSubmittedFiles(prev => 
-        prev.map(f => f.id === submittedFile.id ? {
-          ...uploadedFile,
-          status: FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE,
-          progress: 100
-        } : f)
-      );
-      
-      setActiveFile({
-        ...uploadedFile,
-        status: FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE,
-        progress: 100
-      });
-      
+  // Mirror upload queue progress into the file list and the active file
+  useEffect(() => {
+    const jobsById = new Map(uploadJobs.map(job => [job.id, job]));
+
+    setSubmittedFiles(prev => prev.map(f => jobsById.get(f.id)?.file ?? f));
+    setActiveFile(prev => prev && jobsById.has(prev.id) ? jobsById.get(prev.id)!.file : prev);
+    setContextFiles(prev => prev.map(f => jobsById.get(f.id)?.file ?? f));
+  }, [uploadJobs]);
+
+  useEffect(() => subscribeToUploadEvents(async (event) => {
+    if (event.type === "duplicate") {
+      // The prompt still has to be answered, just without the earlier analyses
+      let analyses: DiagnosticResult[] = [];
+      try {
+        analyses = await getFileAnalyses(event.existingFile.id);
+      } catch (error) {
+        console.error("Error loading earlier analyses:", error);
+        toast({
+          title: "Could not load earlier analyses",
+          description: `"${event.existingFile.name}" was uploaded before, but its analyses could not be loaded.`,
+          variant: "destructive",
+        });
+      }
+      setDuplicatePrompts(prev => [
+        ...prev.filter(prompt => prompt.file.id !== event.job.id),
+        { file: event.job.file, existingFile: event.existingFile, analyses }
+      ]);
+    } else if (event.type === "complete") {
       toast({
         title: "File processed successfully",
-        description: `"${file.name}" is ready for analysis.`,
+        description: `"${event.job.file.name}" is ready for analysis.`,
       });
-    } catch (error) {
-      const failedFile: FileItem = {
-        ...file,
-        status: FileUploadStatus.FILE_UPLOAD_STATUS_FAILED,
-        progress: 0
-      };
-
-      setSubmittedFiles(prev => 
-        prev.map(f => f.id === file.id ? failedFile : f)
-      );
-
+    } else if (!event.job.cancelled) {
       toast({
         title: "Error processing file",
-        description: "There was an error processing your diagnostic file. Please try again.",
+        description: `There was an error uploading "${event.job.file.name}". You can retry it from the file list.`,
         variant: "destructive",
       });
     }
+  }), [toast]);
+
+  const handleFileSubmit = (file: FileItem) => {
+    const job = enqueueUpload(file);
+
+    setSubmittedFiles(prev => [job.file, ...prev.filter(f => f.id !== job.id)]);
+    setActiveFile(job.file);
+    setContextFiles(prev => [...prev.filter(f => f.id !== job.id), job.file]);
+  };
+
+  const handleReuseDuplicate = () => {
+    if (!duplicatePrompt) return;
+    const { file, existingFile, analyses } = duplicatePrompt;
+
+    resolveDuplicate(file.id, true);
+    setDuplicatePrompts(prev => prev.filter(prompt => prompt.file.id !== file.id));
+    setSubmittedFiles(prev => prev.filter(f => f.id !== file.id));
+    setActiveFile(existingFile);
+    setContextFiles(prev => [
+      ...prev.filter(f => f.id !== file.id && f.id !== existingFile.id),
+      existingFile
+    ]);
+
+    if (analyses.length > 0) {
+      const latest = analyses[analyses.length - 1];
+      setChatMessages(prev => [...prev, {
+        id: crypto.randomUUID(),
+        content: `"${file.name}" matches the already uploaded "${existingFile.name}". Its most recent analysis: ${latest.summary}`,
+        result: latest,
+        timestamp: new Date(),
+        sender: "assistant",
+      }]);
+    }
+
+    toast({
+      title: "Reusing existing file",
+      description: `"${existingFile.name}" is ready for analysis.`,
+    });
+  };
+
+  const handleUploadDuplicateAnyway = () => {
+    if (!duplicatePrompt) return;
+
+    const { file } = duplicatePrompt;
+
+    resolveDuplicate(file.id, false);
+    setDuplicatePrompts(prev => prev.filter(prompt => prompt.file.id !== file.id));
   };
 
   const handleFileUploadClick = () => {
@@ -224,314 +427,265 @@ const Index = () => {
   };
 
   return (
-    <div className="w-full h-screen flex flex-col bg-zinc-950">
-      <header className="w-full border-b border-zinc-800 py-3 px-4 bg-zinc-900/80">
-        <div className="container mx-auto max-w-7xl flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <h1 className="text-xl font-bold bg-gradient-to-r from-cyan-400 to-blue-600 bg-clip-text text-transparent">
-              DevOps Diagnostics
-            </h1>
-            <div className="hidden md:flex items-center text-sm gap-4 text-zinc-400">
-              <span className="hover:text-white cursor-pointer">Home</span>
-              <span className="text-zinc-600">›</span>
-              <span className="hover:text-white cursor-pointer">Projects</span>
-              <span className="text-zinc-600">›</span>
-              <span className="hover:text-white cursor-pointer">Project-SRE</span>
+    <SidebarProvider>
+      <SessionSidebar activeSessionId={sessionId} />
+      <div className="flex-1 min-w-0 h-screen flex flex-col bg-zinc-950">
+        <DuplicateFileDialog
+          file={duplicatePrompt?.file ?? null}
+          existingFile={duplicatePrompt?.existingFile ?? null}
+          analysisCount={duplicatePrompt?.analyses.length ?? 0}
+          onReuse={handleReuseDuplicate}
+          onUploadAnyway={handleUploadDuplicateAnyway}
+        />
+        <header className="w-full border-b border-zinc-800 py-3 px-4 bg-zinc-900/80">
+          <div className="container mx-auto max-w-7xl flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <SidebarTrigger className="-ml-1" />
+              <h1 className="text-xl font-bold bg-gradient-to-r from-cyan-400 to-blue-600 bg-clip-text text-transparent">
+                DevOps Diagnostics
+              </h1>
+              <div className="hidden md:flex items-center text-sm gap-4 text-zinc-400">
+                <span className="hover:text-white cursor-pointer">Home</span>
+                <span className="text-zinc-600">›</span>
+                <span className="hover:text-white cursor-pointer">Projects</span>
+                <span className="text-zinc-600">›</span>
+                <span className="hover:text-white cursor-pointer">Project-SRE</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <UploadQueueIndicator />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+                className="rounded-full"
+              >
+                {theme === "dark" ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+              </Button>
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
-            className="rounded-full"
-          >
-            {theme === "dark" ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
-          </Button>
-        </div>
-      </header>
-
-      <div className="flex-1 overflow-hidden flex flex-col h-full">
-        <div className="w-full flex-1 flex flex-col h-full">
-          <div className="flex-1 overflow-y-auto p-4">
-            {chatMessages.length > 0 ? (
-              <div className="space-y-6">
-                {chatMessages.map((message) => (
-                  <div
-                    key={message.id}
-                    className={`flex ${
-                      message.sender === "user" ? "justify-start" : "justify-start"
-                    }`}
-                  >
+        </header>
+
+        <div className="flex-1 overflow-hidden flex flex-col h-full">
+          <div className="w-full flex-1 flex flex-col h-full">
+            <div className="flex-1 overflow-y-auto p-4">
+              {chatMessages.length > 0 ? (
+                <div className="space-y-6">
+                  {chatMessages.map((message) => (
                     <div
-                      className={`max-w-[80%] rounded-lg p-4 ${
-                        message.sender === "user"
-                          ? "bg-zinc-800/60 text-white"
-                          : "bg-blue-600/10 border border-blue-600/30 text-white"
+                      key={message.id}
+                      className={`flex flex-col gap-3 ${
+                        message.sender === "user" ? "items-start" : "items-start"
                       }`}
                     >
-                      {message.file && message.sender === "user" && (
-                        <div className="mb-2 flex items-center gap-2 text-xs text-zinc-400">
-                          <File className="h-3.5 w-3.5" />
-                          <span>{message.file.name}</span>
-                        </div>
-                      )}
-                      <p className="text-sm">{message.content}</p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="h-full flex flex-col items-center justify-center">
-                <div className="text-center max-w-md">
-                  <h2 className="text-xl font-bold mb-2">Start by uploading a diagnostic file</h2>
-                  <p className="text-sm text-zinc-400 mb-4">
-                    Upload log files, system diagnostics, or metrics data from your infrastructure for analysis
-                  </p>
-                  <div className="flex justify-center">
-                    <Button
-                      variant="outline"
-                      className="rounded-full gap-2"
-                      onClick={() => {
-                        setIsFileListExpanded(true);
-                        toast({
-                          title: "Tip",
-                          description: "Use the paperclip icon below to upload diagnostic files",
-                        });
-                      }}
-                    >
-                      <File className="h-4 w-4" />
-                      <span>Upload diagnostic file</span>
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            )}
-
-            {diagnosticResults && (
-              <div className="mt-6 space-y-6 mb-4">
-                <div className="bg-zinc-900/80 border border-zinc-800 rounded-lg overflow-hidden">
-                  <div className="p-4">
-                    <h3 className="text-lg font-bold">Summary</h3>
-                    <p className="text-sm mt-2 text-zinc-300">{diagnosticResults.summary}</p>
-                  </div>
-
-                  {diagnosticResults.insights && diagnosticResults.insights.length > 0 && (
-                    <div className="border-t border-zinc-800 p-4">
-                      <h3 className="text-sm font-bold mb-2">Key Insights</h3>
-                      <ul className="space-y-1">
-                        {diagnosticResults.insights.map((insight, index) => (
-                          <li key={index} className="text-sm text-zinc-300 flex items-start">
-                            <span className="text-blue-400 mr-2">•</span>
-                            {insight}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-
-                  {diagnosticResults.recommendations && diagnosticResults.recommendations.length > 0 && (
-                    <div className="border-t border-zinc-800 p-4">
-                      <h3 className="text-sm font-bold mb-2">Recommendations</h3>
-                      <ul className="space-y-1">
-                        {diagnosticResults.recommendations.map((rec, index) => (
-                          <li key={index} className="text-sm text-zinc-300 flex items-start">
-                            <span className="text-green-400 mr-2">•</span>
-                            {rec}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-
-                  {diagnosticResults.tables && diagnosticResults.tables.map(table => (
-                    <div key={table.id} className="mt-4 border-t border-zinc-800">
-                      <div className="flex items-center justify-between p-3 bg-zinc-900">
-                        <div className="flex items-center gap-2">
-                          <Table className="h-4 w-4 text-zinc-400" />
-                          <h4 className="text-sm font-medium">{table.name}</h4>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <Button variant="ghost" size="icon" className="h-7 w-7">
-                            <RefreshCw className="h-3.5 w-3.5" />
-                          </Button>
-                          <Button variant="ghost" size="icon" className="h-7 w-7">
-                            <MoreHorizontal className="h-3.5 w-3.5" />
-                          </Button>
-                        </div>
-                      </div>
-                      
-                      <div className="overflow-x-auto">
-                        <table className="w-full text-sm">
-                          <thead className="bg-zinc-900/80 text-xs uppercase">
-                            <tr>
-                              {table.columns.map((column, i) => (
-                                <th key={i} className="px-4 py-2 text-left font-medium text-zinc-400">
-                                  <div className="flex items-center gap-1">
-                                    {column}
-                                  </div>
-                                </th>
-                              ))}
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {table.data.map((row, i) => (
-                              <tr key={i} className="border-t border-zinc-800 hover:bg-zinc-800/40">
-                                {row.map((cell, j) => (
-                                  <td key={j} className="px-4 py-3 text-xs">
-                                    {cell}
-                                  </td>
-                                ))}
-                              </tr>
+                      <div
+                        className={`max-w-[80%] rounded-lg p-4 ${
+                          message.sender === "user"
+                            ? "bg-zinc-800/60 text-white"
+                            : "bg-blue-600/10 border border-blue-600/30 text-white"
+                        }`}
+                      >
+                        {message.files && message.files.length > 0 && message.sender === "user" && (
+                          <div className="mb-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-zinc-400">
+                            {message.files.map(file => (
+                              <div key={file.id} className="flex items-center gap-1.5">
+                                <File className="h-3.5 w-3.5" />
+                                <span>{file.name}</span>
+                              </div>
                             ))}
-                          </tbody>
-                        </table>
+                          </div>
+                        )}
+                        {message.timeRange && (
+                          <div className="mb-2 flex items-center gap-1.5 text-xs text-zinc-400">
+                            <CalendarClock className="h-3.5 w-3.5" />
+                            <span>{formatTimeRange(message.timeRange.from, message.timeRange.to)}</span>
+                          </div>
+                        )}
+                        {message.streaming && !message.content ? (
+                          <div className="flex items-center gap-2 text-sm text-zinc-400">
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                            <span>Analyzing...</span>
+                          </div>
+                        ) : (
+                          <p className="text-sm">
+                            {message.content}
+                            {message.streaming && (
+                              <span className="ml-0.5 inline-block h-3.5 w-1.5 translate-y-0.5 animate-pulse bg-blue-400" />
+                            )}
+                          </p>
+                        )}
+                        {message.stopped && (
+                          <p className="mt-2 text-xs text-zinc-500">Stopped</p>
+                        )}
                       </div>
+                      {message.result && (
+                        <div className="w-full max-w-[80%]">
+                          <DiagnosticResultCard
+                            result={message.result}
+                            isStreaming={message.streaming}
+                            timeRange={timeRangeMessageId === message.id ? timeRange : null}
+                            onTimeRangeChange={(range) => {
+                              setTimeRange(range);
+                              setTimeRangeMessageId(message.id);
+                            }}
+                          />
+                        </div>
+                      )}
                     </div>
                   ))}
-
-                  <div className="flex items-center justify-between p-3 border-t border-zinc-800">
-                    <div className="flex items-center gap-2 text-xs text-zinc-400">
-                      <Terminal className="h-3.5 w-3.5" />
-                      <span>Analysis completed in 1.2s</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs">
-                        <Share2 className="h-3.5 w-3.5" />
-                        <span>Share</span>
-                      </Button>
-                      <Button variant="ghost" size="icon" className="h-7 w-7">
-                        <ThumbsUp className="h-3.5 w-3.5" />
-                      </Button>
-                      <Button variant="ghost" size="icon" className="h-7 w-7">
-                        <ThumbsDown className="h-3.5 w-3.5" />
-                      </Button>
-                    </div>
-                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-
-          <div className="border-t border-zinc-800 bg-zinc-900/50 px-4 pt-3">
-            <Collapsible 
-              open={isFileListExpanded && !isUploadPopupOpen}
-              onOpenChange={(open) => {
-                setIsFileListExpanded(open);
-                if (open) {
-                  setIsUploadPopupOpen(false);
-                }
-              }}
-              className="mb-3"
-            >
-              <CollapsibleTrigger asChild>
-                <div className="flex items-center justify-between mb-2 cursor-pointer">
-                  <div className="flex items-center gap-2">
-                    <h3 className="text-sm font-bold">Diagnostic Files</h3>
-                    {submittedFiles.length > 0 && (
-                      <span className="text-xs bg-blue-500/20 text-blue-400 px-1.5 py-0.5 rounded-full">
-                        {submittedFiles.length}
-                      </span>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      className="h-7 gap-1 text-xs"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleRefreshFiles();
-                      }}
-                    >
-                      <RefreshCw className="h-3.5 w-3.5" />
-                      <span className="hidden sm:inline">Refresh</span>
-                    </Button>
-                    <ChevronDown className={`h-4 w-4 transition-transform ${isFileListExpanded ? 'transform rotate-180' : ''}`} />
-                  </div>
-                </div>
-              </CollapsibleTrigger>
-              <CollapsibleContent>
-                <div className="mb-3 relative">
-                  <div className="relative">
-                    <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-zinc-500" />
-                    <Input
-                      type="text"
-                      placeholder="Search diagnostic files..."
-                      className="pl-9 bg-zinc-800/50 border-zinc-700 w-full text-sm"
-                      value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
-                    />
-                    {searchQuery && (
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center">
+                  <div className="text-center max-w-md">
+                    <h2 className="text-xl font-bold mb-2">Start by uploading a diagnostic file</h2>
+                    <p className="text-sm text-zinc-400 mb-4">
+                      Upload log files, system diagnostics, or metrics data from your infrastructure for analysis
+                    </p>
+                    <div className="flex justify-center">
                       <Button
-                        variant="ghost"
-                        size="icon"
-                        className="absolute right-1 top-1 h-7 w-7 hover:bg-zinc-700/50"
-                        onClick={() => setSearchQuery("")}
-                        onMouseDown={(e) => e.stopPropagation()}
+                        variant="outline"
+                        className="rounded-full gap-2"
+                        onClick={() => {
+                          setIsFileListExpanded(true);
+                          toast({
+                            title: "Tip",
+                            description: "Use the paperclip icon below to upload diagnostic files",
+                          });
+                        }}
                       >
-                        <X className="h-3.5 w-3.5" />
+                        <File className="h-4 w-4" />
+                        <span>Upload diagnostic file</span>
                       </Button>
-                    )}
+                    </div>
                   </div>
                 </div>
-                
-                <FileGrid
-                  searchQuery={searchQuery}
-                  onFileSelect={setActiveFile}
-                  onFileDelete={handleDeleteFile}
-                  activeFile={activeFile}
-                  className="mb-3"
-                />
-              </CollapsibleContent>
-            </Collapsible>
-            
-            {activeFile && (
+              )}
+
+            </div>
+
+            <div className="border-t border-zinc-800 bg-zinc-900/50 px-4 pt-3">
               <Collapsible 
-                open={isFileInfoExpanded}
-                onOpenChange={setIsFileInfoExpanded}
+                open={isFileListExpanded && !isUploadPopupOpen}
+                onOpenChange={(open) => {
+                  setIsFileListExpanded(open);
+                  if (open) {
+                    setIsUploadPopupOpen(false);
+                  }
+                }}
                 className="mb-3"
               >
                 <CollapsibleTrigger asChild>
-                  <div className="flex items-center justify-between rounded-md bg-zinc-800/50 px-3 py-2 cursor-pointer hover:bg-zinc-800">
+                  <div className="flex items-center justify-between mb-2 cursor-pointer">
                     <div className="flex items-center gap-2">
-                      <File className="h-4 w-4 text-blue-400" />
-                      <span className="text-sm font-medium">
-                        File: {activeFile.name}
-                      </span>
-                      <span className="text-xs bg-green-500/20 text-green-400 px-2 py-0.5 rounded">
-                        Ready
-                      </span>
+                      <h3 className="text-sm font-bold">Diagnostic Files</h3>
+                      {submittedFiles.length > 0 && (
+                        <span className="text-xs bg-blue-500/20 text-blue-400 px-1.5 py-0.5 rounded-full">
+                          {submittedFiles.length}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button 
+                        variant="ghost" 
+                        size="sm" 
+                        className="h-7 gap-1 text-xs"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRefreshFiles();
+                        }}
+                      >
+                        <RefreshCw className="h-3.5 w-3.5" />
+                        <span className="hidden sm:inline">Refresh</span>
+                      </Button>
+                      <ChevronDown className={`h-4 w-4 transition-transform ${isFileListExpanded ? 'transform rotate-180' : ''}`} />
                     </div>
-                    <ChevronDown className={`h-4 w-4 transition-transform ${isFileInfoExpanded ? 'transform rotate-180' : ''}`} />
                   </div>
                 </CollapsibleTrigger>
-                <CollapsibleContent className="p-3 text-sm bg-zinc-800/20 rounded-b-md border-x border-b border-zinc-800">
-                  <div className="space-y-2">
-                    <p><span className="text-zinc-400">Type:</span> {activeFile.type}</p>
-                    <p><span className="text-zinc-400">Size:</span> {activeFile.size > 1024 * 1024 
-                      ? `${(activeFile.size / (1024 * 1024)).toFixed(2)} MB` 
-                      : `${(activeFile.size / 1024).toFixed(2)} KB`}
-                    </p>
-                    <p><span className="text-zinc-400">Context:</span> {activeFile.context}</p>
-                  </div>
+                <CollapsibleContent>
+                  <FileSearchInput
+                    value={searchQuery}
+                    onChange={setSearchQuery}
+                    mode={searchMode}
+                    onModeChange={setSearchMode}
+                    className="mb-3"
+                  />
+                
+                  <FileGrid
+                    searchQuery={searchQuery}
+                    searchMode={searchMode}
+                    onFileSelect={handleFileSelect}
+                    onFileDelete={handleDeleteFile}
+                    activeFile={activeFile}
+                    selectedFileIds={contextFiles.map(f => f.id)}
+                    onToggleFileSelection={handleToggleContextFile}
+                    className="mb-3"
+                  />
                 </CollapsibleContent>
               </Collapsible>
-            )}
             
-            <ChatInput 
-              onSend={handleSendMessage}
-              onFileSubmit={handleFileSubmit}
-              submittedFiles={submittedFiles}
-              placeholder={activeFile ? "Ask about the diagnostic file..." : "Upload a diagnostic file or type a message..."}
-              disabled={isAnalyzing}
-              onFileUploadClick={handleFileUploadClick}
-              activeFile={activeFile}
-              collapseFileList={collapseFileList}
-            />
+              {activeFile && (
+                <Collapsible 
+                  open={isFileInfoExpanded}
+                  onOpenChange={setIsFileInfoExpanded}
+                  className="mb-3"
+                >
+                  <CollapsibleTrigger asChild>
+                    <div className="flex items-center justify-between rounded-md bg-zinc-800/50 px-3 py-2 cursor-pointer hover:bg-zinc-800">
+                      <div className="flex items-center gap-2">
+                        <File className="h-4 w-4 text-blue-400" />
+                        <span className="text-sm font-medium">
+                          File: {activeFile.name}
+                        </span>
+                        {isUploadActive(activeFile.status) || activeFile.status === FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED ? (
+                          <span className="text-xs bg-amber-500/20 text-amber-400 px-2 py-0.5 rounded">
+                            {getUploadStatusLabel(activeFile.status)} {activeFile.progress ?? 0}%
+                          </span>
+                        ) : activeFile.status === FileUploadStatus.FILE_UPLOAD_STATUS_FAILED ? (
+                          <span className="text-xs bg-red-500/20 text-red-400 px-2 py-0.5 rounded">
+                            Failed
+                          </span>
+                        ) : (
+                          <span className="text-xs bg-green-500/20 text-green-400 px-2 py-0.5 rounded">
+                            Ready
+                          </span>
+                        )}
+                      </div>
+                      <ChevronDown className={`h-4 w-4 transition-transform ${isFileInfoExpanded ? 'transform rotate-180' : ''}`} />
+                    </div>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="p-3 text-sm bg-zinc-800/20 rounded-b-md border-x border-b border-zinc-800">
+                    <div className="space-y-2">
+                      <p><span className="text-zinc-400">Type:</span> {activeFile.type}</p>
+                      <p><span className="text-zinc-400">Size:</span> {activeFile.size > 1024 * 1024 
+                        ? `${(activeFile.size / (1024 * 1024)).toFixed(2)} MB` 
+                        : `${(activeFile.size / 1024).toFixed(2)} KB`}
+                      </p>
+                      <p><span className="text-zinc-400">Context:</span> {activeFile.context}</p>
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+            
+              <ChatInput 
+                onSend={handleSendMessage}
+                onFileSubmit={handleFileSubmit}
+                submittedFiles={submittedFiles}
+                placeholder={activeFile ? "Ask about the diagnostic file..." : "Upload a diagnostic file or type a message..."}
+                disabled={isAnalyzing}
+                isStreaming={isAnalyzing}
+                onStop={handleStopAnalysis}
+                onFileUploadClick={handleFileUploadClick}
+                attachedFiles={contextFiles}
+                onAttachedFilesChange={setContextFiles}
+                timeRange={timeRange}
+                onTimeRangeChange={setTimeRange}
+                collapseFileList={collapseFileList}
+              />
+            </div>
           </div>
         </div>
       </div>
-    </div>
+    </SidebarProvider>
   );
 };
 
@@ -0,0 +1,399 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { AlertCircle, ArrowLeft, ChevronDown, ChevronUp, Clock, Link2, Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Toggle } from "@/components/ui/toggle";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { FileItem } from "@/components/FileUploader";
+import { LogLines } from "@/components/log/LogLines";
+import { useToast } from "@/hooks/use-toast";
+import { getFile, getFileContent } from "@/services/fileService";
+import { extractArchiveEntry, listArchive } from "@/lib/archive/archiveClient";
+import { LogLineIndex, findLineAtTime } from "@/lib/log/lineIndex";
+import { indexLogFile, searchLogLines } from "@/lib/log/lineIndexClient";
+import { LOG_LEVELS, LogLevel } from "@/lib/log/parse";
+import { parseTimestamp } from "@/lib/log/timestamp";
+import { LineRange, formatLineRange, getLogViewerPath, parseLineRange } from "@/lib/log/viewerLink";
+import { getFileTypeDefinition } from "@/lib/fileTypeRegistry";
+import { cn } from "@/lib/utils";
+
+// Search stops counting here; more matches than this are not worth paging
+const MAX_MATCHES = 100000;
+const SEARCH_DEBOUNCE_MS = 250;
+
+const LEVEL_FILTERS: Array<{ value: string; label: string; levels: LogLevel[]; className: string }> = [
+  { value: "error", label: "Error", levels: ["fatal", "error"], className: "text-red-400" },
+  { value: "warn", label: "Warn", levels: ["warn"], className: "text-amber-300" },
+  { value: "info", label: "Info", levels: ["info"], className: "text-zinc-300" },
+  { value: "debug", label: "Debug", levels: ["debug"], className: "text-zinc-500" },
+  { value: "other", label: "Other", levels: ["unknown"], className: "text-zinc-400" },
+];
+const ALL_FILTERS = LEVEL_FILTERS.map(filter => filter.value);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Full-page, virtualized view of a log file or of a log inside an archive
+// (?path=). The selected line range lives in the URL, so links to it can be
+// shared.
+const LogViewer = () => {
+  const { fileId } = useParams<{ fileId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const entryPath = searchParams.get("path") ?? undefined;
+  const selection = parseLineRange(searchParams.get("range"));
+  const { toast } = useToast();
+  // Read once the file is indexed, without reloading it on every selection
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+
+  const [file, setFile] = useState<FileItem | null>(null);
+  const [log, setLog] = useState<{ text: string; index: LogLineIndex } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollTarget, setScrollTarget] = useState<{ line: number } | null>(null);
+  const [wrap, setWrap] = useState<boolean>(false);
+  const [levelFilters, setLevelFilters] = useState<string[]>(ALL_FILTERS);
+  const [query, setQuery] = useState<string>("");
+  const [debouncedQuery, setDebouncedQuery] = useState<string>("");
+  const [isRegex, setIsRegex] = useState<boolean>(true);
+  const [matchCase, setMatchCase] = useState<boolean>(false);
+  const [activeMatch, setActiveMatch] = useState<number>(0);
+  // Lines matching the search, whatever their level
+  const [matchedLines, setMatchedLines] = useState<number[]>([]);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [jumpTo, setJumpTo] = useState<string>("");
+
+  // Download and index the file whenever another one is opened
+  useEffect(() => {
+    if (!fileId) return;
+
+    let cancelled = false;
+    setFile(null);
+    setLog(null);
+    setError(null);
+
+    const open = async () => {
+      try {
+        const metadata = await getFile(fileId);
+        if (!metadata) {
+          throw new Error("File not found. It may have been deleted.");
+        }
+        if (cancelled) return;
+        setFile(metadata);
+
+        let blob = await getFileContent(fileId);
+        if (entryPath) {
+          await listArchive(fileId, metadata.name, blob);
+          blob = new Blob([await extractArchiveEntry(fileId, entryPath)]);
+        }
+
+        const result = await indexLogFile(blob, new Date(metadata.lastModified).getUTCFullYear());
+        if (cancelled) return;
+
+        setLog(result);
+        // Links to a line range open scrolled to it
+        const range = selectionRef.current;
+        if (range) setScrollTarget({ line: range.start });
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Could not open the file");
+        }
+      }
+    };
+
+    open();
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId, entryPath]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const levelCounts = useMemo(() => {
+    const counts = new Array<number>(LOG_LEVELS.length).fill(0);
+    log?.index.levels.forEach(level => counts[level]++);
+    return counts;
+  }, [log]);
+
+  // Levels to show, as a lookup by LOG_LEVELS index
+  const shownLevels = useMemo(() => {
+    const shown = new Array<boolean>(LOG_LEVELS.length).fill(false);
+    LEVEL_FILTERS
+      .filter(filter => levelFilters.includes(filter.value))
+      .forEach(filter => filter.levels.forEach(level => { shown[LOG_LEVELS.indexOf(level)] = true; }));
+    return shown;
+  }, [levelFilters]);
+
+  const visibleLines = useMemo(() => {
+    if (!log || shownLevels.every(Boolean)) return null;
+
+    const { levels } = log.index;
+    const lines: number[] = [];
+    for (let line = 0; line < levels.length; line++) {
+      if (shownLevels[levels[line]]) lines.push(line);
+    }
+    return Uint32Array.from(lines);
+  }, [log, shownLevels]);
+
+  const search = useMemo((): { pattern: RegExp | null; error?: string } => {
+    if (!debouncedQuery) return { pattern: null };
+
+    try {
+      return { pattern: new RegExp(isRegex ? debouncedQuery : escapeRegExp(debouncedQuery), matchCase ? "gm" : "gim") };
+    } catch (err) {
+      return { pattern: null, error: err instanceof Error ? err.message : "Invalid regular expression" };
+    }
+  }, [debouncedQuery, isRegex, matchCase]);
+
+  // The scan runs in the worker; a reply to an older search is dropped
+  useEffect(() => {
+    setMatchedLines([]);
+    setIsSearching(!!log && !!search.pattern);
+    if (!log || !search.pattern) return;
+
+    let cancelled = false;
+    searchLogLines(log.text, log.index, search.pattern, MAX_MATCHES)
+      .then(lines => {
+        if (!cancelled) setMatchedLines(lines);
+      })
+      .catch(err => {
+        console.error("Error searching the log:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [log, search]);
+
+  // Lines with a match, among the shown ones
+  const matches = useMemo(() => {
+    if (!log) return [];
+    return matchedLines.filter(line => shownLevels[log.index.levels[line]]);
+  }, [log, matchedLines, shownLevels]);
+
+  // A new search starts at its first match
+  useEffect(() => {
+    setActiveMatch(0);
+    if (matches.length > 0) setScrollTarget({ line: matches[0] });
+  }, [matches]);
+
+  const goToMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+
+    const next = (activeMatch + direction + matches.length) % matches.length;
+    setActiveMatch(next);
+    setScrollTarget({ line: matches[next] });
+  };
+
+  const setSelection = (range: LineRange | null) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      if (range) next.set("range", formatLineRange(range));
+      else next.delete("range");
+      return next;
+    }, { replace: true });
+  };
+
+  // Click selects a line, Shift-click extends the selection, clicking the
+  // only selected line clears it
+  const handleLineNumberClick = (line: number, extend: boolean) => {
+    if (extend && selection) {
+      setSelection({ start: Math.min(selection.start, line), end: Math.max(selection.end, line) });
+    } else if (selection && selection.start === line && selection.end === line) {
+      setSelection(null);
+    } else {
+      setSelection({ start: line, end: line });
+    }
+  };
+
+  const handleJumpToTime = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!log || !file) return;
+
+    const value = jumpTo.trim();
+    const time = parseTimestamp(value, new Date(file.lastModified).getUTCFullYear())?.time ?? Date.parse(value);
+    if (Number.isNaN(time)) {
+      toast({
+        title: "Unrecognized time",
+        description: "Use a timestamp like 2024-09-26 11:57:35 or Sep 26 11:57:35.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const line = findLineAtTime(log.index, time);
+    if (line === -1) {
+      toast({
+        title: "Nothing logged after that time",
+        description: "Every line of this file is older.",
+      });
+      return;
+    }
+
+    setSelection({ start: line, end: line });
+    setScrollTarget({ line });
+  };
+
+  const handleCopyLink = async () => {
+    if (!fileId || !selection) return;
+
+    const path = getLogViewerPath(fileId, { path: entryPath, range: selection });
+    const link = `${window.location.origin}${window.location.pathname}#${path}`;
+    try {
+      await navigator.clipboard.writeText(link);
+    } catch (error) {
+      // Denied permission or an insecure context; the link can still be copied by hand
+      console.error("Error copying link:", error);
+      toast({
+        title: "Could not copy the link",
+        description: link,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "Link copied",
+      description: `Anyone with access to this file can open ${selection.start === selection.end ? "this line" : "these lines"}.`,
+    });
+  };
+
+  const lineCount = log?.index.starts.length ?? 0;
+  const FileTypeIcon = file ? getFileTypeDefinition(file.type).icon : null;
+
+  return (
+    <div className="h-screen flex flex-col bg-zinc-950 text-white">
+      <header className="w-full border-b border-zinc-800 py-3 px-4 bg-zinc-900/80">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="icon" className="h-8 w-8">
+            <Link to="/" title="Back to files">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          {FileTypeIcon && <FileTypeIcon className="h-4 w-4 text-zinc-400" />}
+          <div className="min-w-0">
+            <h1 className="truncate text-sm font-medium">{file?.name ?? "Opening file…"}</h1>
+            <p className="truncate text-xs text-zinc-500">
+              {entryPath && <span className="font-mono">{entryPath} · </span>}
+              {log ? `${lineCount.toLocaleString()} ${lineCount === 1 ? "line" : "lines"}` : "Loading…"}
+              {selection && ` · selected ${formatLineRange(selection)}`}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-2 border-b border-zinc-800 px-4 py-2">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2 h-3.5 w-3.5 text-zinc-500" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") goToMatch(e.shiftKey ? -1 : 1);
+            }}
+            placeholder={isRegex ? "Search (regex)" : "Search"}
+            className={cn(
+              "h-8 w-64 bg-zinc-900 pl-8 pr-20 font-mono text-xs",
+              search.error && "border-red-500 focus-visible:ring-red-500"
+            )}
+            title={search.error}
+          />
+          <span className="absolute right-2 top-2 text-xs text-zinc-500">
+            {search.error
+              ? "Invalid"
+              : isSearching
+                ? "Searching…"
+                : search.pattern
+                  ? matches.length > 0
+                    ? `${activeMatch + 1} / ${matches.length >= MAX_MATCHES ? `${MAX_MATCHES}+` : matches.length}`
+                    : "No matches"
+                  : ""}
+          </span>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => goToMatch(-1)} disabled={matches.length === 0} title="Previous match (Shift+Enter)">
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => goToMatch(1)} disabled={matches.length === 0} title="Next match (Enter)">
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Toggle size="sm" pressed={isRegex} onPressedChange={setIsRegex} className="h-8 font-mono text-xs" title="Regular expression">
+          .*
+        </Toggle>
+        <Toggle size="sm" pressed={matchCase} onPressedChange={setMatchCase} className="h-8 font-mono text-xs" title="Match case">
+          Aa
+        </Toggle>
+
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={levelFilters}
+          onValueChange={setLevelFilters}
+          className="ml-2"
+        >
+          {LEVEL_FILTERS.map(filter => {
+            const count = filter.levels.reduce((sum, level) => sum + levelCounts[LOG_LEVELS.indexOf(level)], 0);
+            return (
+              <ToggleGroupItem key={filter.value} value={filter.value} className={cn("h-8 gap-1 text-xs", filter.className)}>
+                {filter.label}
+                <span className="text-zinc-500">{count.toLocaleString()}</span>
+              </ToggleGroupItem>
+            );
+          })}
+        </ToggleGroup>
+
+        <form onSubmit={handleJumpToTime} className="relative ml-auto">
+          <Clock className="absolute left-2.5 top-2 h-3.5 w-3.5 text-zinc-500" />
+          <Input
+            value={jumpTo}
+            onChange={(e) => setJumpTo(e.target.value)}
+            placeholder="Jump to time"
+            className="h-8 w-48 bg-zinc-900 pl-8 font-mono text-xs"
+            disabled={!log}
+          />
+        </form>
+        <div className="flex items-center gap-2">
+          <Switch id="log-wrap" checked={wrap} onCheckedChange={setWrap} />
+          <Label htmlFor="log-wrap" className="text-xs text-zinc-400">Wrap</Label>
+        </div>
+        <Button variant="outline" size="sm" className="h-8 gap-1.5 text-xs" onClick={handleCopyLink} disabled={!selection}>
+          <Link2 className="h-3.5 w-3.5" />
+          Copy link
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {error ? (
+          <div className="flex h-full items-center justify-center gap-2 text-sm text-red-400">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : !log ? (
+          <div className="flex h-full items-center justify-center gap-2 text-sm text-zinc-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Indexing lines…
+          </div>
+        ) : (
+          <LogLines
+            text={log.text}
+            index={log.index}
+            visibleLines={visibleLines}
+            wrap={wrap}
+            search={search.pattern}
+            activeLine={matches.length > 0 ? matches[activeMatch] ?? null : null}
+            selection={selection}
+            onLineNumberClick={handleLineNumberClick}
+            scrollTarget={scrollTarget}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LogViewer;
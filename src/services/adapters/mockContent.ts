@@ -0,0 +1,162 @@
+import { FileItem } from "@/components/FileUploader";
+import { createTar, TarInput } from "@/lib/archive/tar";
+import { gzip } from "@/lib/archive";
+
+// Synthetic contents for the generated demo files, so viewers and the archive
+// explorer have something realistic to show. Output is deterministic per file
+// name, so reopening a file shows the same bytes.
+
+// Small seeded PRNG (mulberry32)
+const createRandom = (seed: string) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const pick = <T,>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const SERVICES = ["alex-bird", "api-gateway", "auth-service", "billing-worker", "cache-proxy"];
+
+const LOG_MESSAGES: Array<{ level: string; message: (service: string) => string }> = [
+  { level: "INFO", message: (service) => `Started container ${service}` },
+  { level: "INFO", message: () => "GET /healthz 200 2ms" },
+  { level: "INFO", message: (service) => `Successfully pulled image "registry.local/${service}:1.4.2"` },
+  { level: "WARN", message: () => "Readiness probe failed: connection refused" },
+  { level: "WARN", message: () => "Slow query detected (1832ms): SELECT * FROM sessions" },
+  { level: "ERROR", message: (service) => `Error: failed to start container "${service}": StartContainer failed` },
+  { level: "ERROR", message: (service) => `Back-off restarting failed container ${service} (CrashLoopBackOff)` },
+  { level: "ERROR", message: () => "Container was OOMKilled (memory limit 512Mi)" },
+];
+
+const generateLog = (random: Random, start: number, lines: number): string => {
+  const output: string[] = [];
+  let time = start;
+
+  for (let i = 0; i < lines; i++) {
+    time += Math.floor(random() * 5000);
+    const service = pick(random, SERVICES);
+    // Errors are rare, except for a burst in the last tenth of the file
+    const burst = i > lines * 0.9;
+    const candidates = LOG_MESSAGES.filter(m => burst ? m.level !== "INFO" : random() < 0.85 ? m.level === "INFO" : true);
+    const { level, message } = pick(random, candidates);
+
+    output.push(`${new Date(time).toISOString()} ${level.padEnd(5)} [${service}] ${message(service)}`);
+
+    if (level === "ERROR" && random() < 0.3) {
+      output.push(
+        "    at Runtime.startContainer (/app/runtime/container.js:214:11)",
+        "    at async Scheduler.run (/app/runtime/scheduler.js:88:5)"
+      );
+    }
+  }
+
+  return output.join("\n") + "\n";
+};
+
+const generateJson = (random: Random, start: number): string => {
+  const services = SERVICES.map(name => ({
+    name,
+    replicas: 1 + Math.floor(random() * 5),
+    healthy: random() > 0.2,
+    latencyMs: { p50: Math.round(random() * 40), p99: Math.round(200 + random() * 800) },
+    lastRestart: new Date(start + Math.floor(random() * 86400000)).toISOString()
+  }));
+
+  return JSON.stringify({ cluster: "prod-eu-1", collectedAt: new Date(start).toISOString(), services }, null, 2) + "\n";
+};
+
+const generateYaml = (random: Random): string => {
+  const service = pick(random, SERVICES);
+  const restarts = Math.floor(random() * 20);
+
+  return [
+    "apiVersion: v1",
+    "kind: Pod",
+    "metadata:",
+    `  name: ${service}-${Math.floor(random() * 0xfffff).toString(16)}`,
+    "  namespace: production",
+    "  labels:",
+    `    app: ${service}`,
+    "spec:",
+    "  containers:",
+    `    - name: ${service}`,
+    `      image: registry.local/${service}:1.4.2`,
+    "      resources:",
+    "        limits:",
+    "          memory: 512Mi",
+    "          cpu: 500m",
+    "status:",
+    "  phase: Running",
+    "  containerStatuses:",
+    `    - name: ${service}`,
+    "      ready: false",
+    `      restartCount: ${restarts}`,
+    "      state:",
+    "        waiting:",
+    "          reason: CrashLoopBackOff",
+    ""
+  ].join("\n");
+};
+
+const generateCsv = (random: Random, start: number, rows: number): string => {
+  const output = ["timestamp,service,requests,errors,p99_ms"];
+  for (let i = 0; i < rows; i++) {
+    const requests = 500 + Math.floor(random() * 2000);
+    output.push([
+      new Date(start + i * 60000).toISOString(),
+      pick(random, SERVICES),
+      requests,
+      Math.floor(requests * random() * 0.05),
+      Math.round(100 + random() * 900)
+    ].join(","));
+  }
+  return output.join("\n") + "\n";
+};
+
+const encoder = new TextEncoder();
+
+const generateBundle = async (random: Random, start: number): Promise<Uint8Array> => {
+  const mtime = start + 3600000;
+  const files: TarInput[] = [
+    { path: "diagnostics/summary.json", data: encoder.encode(generateJson(random, start)), mtime },
+    { path: "diagnostics/logs/kubelet.log", data: encoder.encode(generateLog(random, start, 400)), mtime },
+    { path: "diagnostics/logs/app.log", data: encoder.encode(generateLog(random, start, 600)), mtime },
+    { path: "diagnostics/manifests/pod.yaml", data: encoder.encode(generateYaml(random)), mtime },
+    { path: "diagnostics/metrics/requests.csv", data: encoder.encode(generateCsv(random, start, 120)), mtime },
+  ];
+
+  return gzip(createTar(files));
+};
+
+// Build the contents of a generated mock file based on its extension
+export const generateMockContent = async (file: FileItem): Promise<Blob> => {
+  const random = createRandom(file.name);
+  // Logs cover the day before the file was last modified
+  const start = file.lastModified - 86400000;
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".tgz") || name.endsWith(".tar.gz")) {
+    return new Blob([await generateBundle(random, start)], { type: file.type });
+  }
+  if (name.endsWith(".json")) {
+    return new Blob([generateJson(random, start)], { type: file.type });
+  }
+  if (name.endsWith(".yaml") || name.endsWith(".yml")) {
+    return new Blob([generateYaml(random)], { type: file.type });
+  }
+  if (name.endsWith(".csv")) {
+    return new Blob([generateCsv(random, start, 500)], { type: file.type });
+  }
+
+  return new Blob([generateLog(random, start, 2000)], { type: file.type });
+};
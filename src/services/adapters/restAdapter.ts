@@ -0,0 +1,348 @@
+import { FileItem } from "@/components/FileUploader";
+import { readAnalysisStream } from "../analysisStream";
+import {
+  AnalyzeFileOptions,
+  ChunkedUploadInit,
+  ChunkedUploadSession,
+  ContentSearchResult,
+  FileFilters,
+  FileServiceAdapter,
+  FileSort,
+  FilteredFilesResult,
+  Pagination,
+  SubmitFileOptions
+} from "./types";
+
+interface RestAdapterOptions {
+  baseUrl: string;
+}
+
+// Adapter that talks to the diagnostics backend (or a local stand-in server)
+// over plain JSON/HTTP.
+//
+//   POST   /files               -> FileItem (multipart: "metadata" JSON + "file" bytes)
+//   GET    /files?page&limit... -> { files, total, matches? }
+//                                  (query: unparsed, in the language of
+//                                  lib/search/query.ts;
+//                                  sort=name|size|lastModified|type|status,
+//                                  order=asc|desc; ties broken by id)
+//   GET    /files/contents?query&limit... -> ContentSearchResult[]
+//                                  (same filters as /files; lines are 0-based)
+//   GET    /files/:id           -> FileItem (404 when the file is unknown)
+//   DELETE /files/:id           -> 204 (404 when the file is unknown)
+//   POST   /analyses            -> analysis result, or a text/event-stream of
+//                                  AnalysisStreamEvent JSON messages
+//                                  (body: { fileIds, prompt, timeRange?: { from, to } }
+//                                  with ISO-8601 times)
+//   GET    /files/:id/analyses  -> previous analysis results
+//   GET    /files/by-hash/:hash -> FileItem (404 when no file matches)
+//   GET    /files/:id/content   -> raw file bytes
+//
+// Chunked uploads for large bundles:
+//   POST   /uploads                 -> ChunkedUploadSession
+//   GET    /uploads/:id             -> ChunkedUploadSession (404 once expired)
+//   PUT    /uploads/:id/chunks/:n   -> 204 (raw bytes, "X-Chunk-SHA256" header)
+//   POST   /uploads/:id/complete    -> FileItem
+// Query parameters shared by the file listing and the contents search
+const toFilterParams = (filters: FileFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (filters.query && filters.query.trim() !== '') {
+    params.set("query", filters.query.trim());
+  }
+
+  if (filters.fileTypes && filters.fileTypes.length > 0) {
+    params.set("fileTypes", filters.fileTypes.join(","));
+  }
+
+  if (filters.dateRange?.from) {
+    params.set("from", filters.dateRange.from.toISOString());
+  }
+
+  if (filters.dateRange?.to) {
+    params.set("to", filters.dateRange.to.toISOString());
+  }
+
+  return params;
+};
+
+export const createRestAdapter = ({ baseUrl }: RestAdapterOptions): FileServiceAdapter => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const request = async (path: string, init?: RequestInit): Promise<Response> => {
+    const response = await fetch(`${root}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...init?.headers
+      }
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Request to ${path} failed with status ${response.status}`);
+    }
+
+    return response;
+  };
+
+  // fetch() has no upload progress events, so bytes go through XHR
+  const upload = (path: string, body: FormData, options: SubmitFileOptions): Promise<FileItem> => {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", `${root}${path}`);
+      xhr.responseType = "json";
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          options.onProgress?.(Math.round((event.loaded / event.total) * 100));
+        }
+      };
+
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          options.onProgress?.(100);
+          resolve(xhr.response);
+        } else {
+          reject(new Error(`Request to ${path} failed with status ${xhr.status}`));
+        }
+      };
+      xhr.onerror = () => reject(new Error(`Network error while uploading to ${path}`));
+      xhr.onabort = () => reject(new DOMException("Upload aborted", "AbortError"));
+
+      if (options.signal) {
+        if (options.signal.aborted) {
+          reject(new DOMException("Upload aborted", "AbortError"));
+          return;
+        }
+        options.signal.addEventListener("abort", () => xhr.abort(), { once: true });
+      }
+
+      xhr.send(body);
+    });
+  };
+
+  const submitFile = async (file: FileItem, options: SubmitFileOptions = {}): Promise<FileItem> => {
+    const { blob, ...metadata } = file;
+
+    if (blob) {
+      const body = new FormData();
+      body.append("metadata", JSON.stringify(metadata));
+      body.append("file", blob, metadata.name);
+      return upload("/files", body, options);
+    }
+
+    const response = await request("/files", {
+      method: "POST",
+      body: JSON.stringify(metadata),
+      signal: options.signal
+    });
+
+    if (response.status === 404) {
+      throw new Error("File endpoint not found");
+    }
+
+    return response.json();
+  };
+
+  const getFilteredFiles = async (
+    filters: FileFilters,
+    pagination: Pagination,
+    sort?: FileSort
+  ): Promise<FilteredFilesResult> => {
+    const params = toFilterParams(filters);
+    params.set("page", String(pagination.page));
+    params.set("limit", String(pagination.limit));
+
+    if (sort) {
+      params.set("sort", sort.field);
+      params.set("order", sort.direction);
+    }
+
+    const response = await request(`/files?${params.toString()}`);
+
+    if (response.status === 404) {
+      return { files: [], total: 0 };
+    }
+
+    return response.json();
+  };
+
+  const searchFileContents = async (filters: FileFilters, limit: number): Promise<ContentSearchResult[]> => {
+    const params = toFilterParams(filters);
+    params.set("limit", String(limit));
+
+    const response = await request(`/files/contents?${params.toString()}`);
+
+    if (response.status === 404) {
+      return [];
+    }
+
+    return response.json();
+  };
+
+  const getSubmittedFiles = async (): Promise<FileItem[]> => {
+    const response = await request("/files");
+
+    if (response.status === 404) {
+      return [];
+    }
+
+    const { files } = (await response.json()) as FilteredFilesResult;
+    return files;
+  };
+
+  const deleteFile = async (fileId: string): Promise<boolean> => {
+    const response = await request(`/files/${encodeURIComponent(fileId)}`, {
+      method: "DELETE"
+    });
+
+    return response.ok;
+  };
+
+  const analyzeFile = async (fileIds: string[], prompt: string, options: AnalyzeFileOptions = {}): Promise<unknown> => {
+    const response = await request("/analyses", {
+      method: "POST",
+      body: JSON.stringify({
+        fileIds,
+        prompt,
+        timeRange: options.timeRange && {
+          from: new Date(options.timeRange.from).toISOString(),
+          to: new Date(options.timeRange.to).toISOString()
+        }
+      }),
+      signal: options.signal,
+      headers: {
+        Accept: "text/event-stream, application/json"
+      }
+    });
+
+    if (response.status === 404) {
+      throw new Error("One or more files were not found");
+    }
+
+    // Backends without streaming support answer with the whole result
+    if (response.headers.get("Content-Type")?.startsWith("text/event-stream")) {
+      return readAnalysisStream(response, options.onEvent);
+    }
+
+    const result = await response.json();
+    options.onEvent?.({ type: "done", result });
+    return result;
+  };
+
+  const getFileAnalyses = async (fileId: string): Promise<unknown[]> => {
+    const response = await request(`/files/${encodeURIComponent(fileId)}/analyses`);
+
+    if (response.status === 404) {
+      return [];
+    }
+
+    return response.json();
+  };
+
+  const getFile = async (fileId: string): Promise<FileItem | null> => {
+    const response = await request(`/files/${encodeURIComponent(fileId)}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    return response.json();
+  };
+
+  const findFileByHash = async (sha256: string): Promise<FileItem | null> => {
+    const response = await request(`/files/by-hash/${encodeURIComponent(sha256)}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    return response.json();
+  };
+
+  const getFileContent = async (fileId: string): Promise<Blob> => {
+    const response = await request(`/files/${encodeURIComponent(fileId)}/content`);
+
+    if (response.status === 404) {
+      throw new Error("File not found");
+    }
+
+    return response.blob();
+  };
+
+  const initChunkedUpload = async (init: ChunkedUploadInit): Promise<ChunkedUploadSession> => {
+    const response = await request("/uploads", {
+      method: "POST",
+      body: JSON.stringify(init)
+    });
+
+    if (response.status === 404) {
+      throw new Error("Upload endpoint not found");
+    }
+
+    return response.json();
+  };
+
+  const getChunkedUpload = async (uploadId: string): Promise<ChunkedUploadSession | null> => {
+    const response = await request(`/uploads/${encodeURIComponent(uploadId)}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    return response.json();
+  };
+
+  const putChunk = async (
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    checksum: string,
+    signal?: AbortSignal
+  ): Promise<void> => {
+    const response = await request(`/uploads/${encodeURIComponent(uploadId)}/chunks/${index}`, {
+      method: "PUT",
+      body: chunk,
+      signal,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "X-Chunk-SHA256": checksum
+      }
+    });
+
+    if (response.status === 404) {
+      throw new Error("Upload session not found");
+    }
+  };
+
+  const completeChunkedUpload = async (uploadId: string, file: FileItem): Promise<FileItem> => {
+    const { blob, ...metadata } = file;
+    const response = await request(`/uploads/${encodeURIComponent(uploadId)}/complete`, {
+      method: "POST",
+      body: JSON.stringify(metadata)
+    });
+
+    if (response.status === 404) {
+      throw new Error("Upload session not found");
+    }
+
+    return response.json();
+  };
+
+  return {
+    submitFile,
+    getSubmittedFiles,
+    getFilteredFiles,
+    searchFileContents,
+    deleteFile,
+    getFile,
+    analyzeFile,
+    getFileAnalyses,
+    findFileByHash,
+    getFileContent,
+    initChunkedUpload,
+    getChunkedUpload,
+    putChunk,
+    completeChunkedUpload
+  };
+};
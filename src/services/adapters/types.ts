@@ -0,0 +1,138 @@
+import { FileItem } from "@/components/FileUploader";
+import { FileUploadStatus } from "@/types/file";
+import { FileSearchMatch, MatchRange } from "@/lib/search/fuzzy";
+
+export interface FileFilters {
+  // Search query language, see lib/search/query.ts
+  query?: string;
+  fileTypes?: string[];
+  dateRange?: { from?: Date; to?: Date };
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+}
+
+export type FileSortField = "name" | "size" | "lastModified" | "type" | "status";
+
+export type SortDirection = "asc" | "desc";
+
+// Without a sort, search results come back most relevant first and other
+// listings most recently added first. Files that compare equal are ordered
+// by id, so pages never overlap or leave gaps.
+export interface FileSort {
+  field: FileSortField;
+  direction: SortDirection;
+}
+
+export interface FilteredFilesResult {
+  files: FileItem[];
+  total: number;
+  // Relevance and matched text of every returned file, keyed by file id;
+  // only present when the query has search words or phrases
+  matches?: Record<string, FileSearchMatch>;
+}
+
+// A line of a file matching a contents search
+export interface ContentSearchHit {
+  // Entry path for files inside an archive, "" for the file itself
+  path: string;
+  // 0-based, like LineRange
+  line: number;
+  // The line, cut around the match when it is long
+  text: string;
+  // Matched parts of `text`
+  ranges: MatchRange[];
+}
+
+export interface ContentSearchResult {
+  file: FileItem;
+  // The first few matching lines of each document
+  hits: ContentSearchHit[];
+  // All matching lines of the file
+  totalHits: number;
+}
+
+export interface SubmitFileOptions {
+  // Called with the upload progress as a percentage (0-100)
+  onProgress?: (progress: number) => void;
+  // Called when a chunked upload pauses (e.g. network drop) or resumes
+  onStatusChange?: (status: FileUploadStatus) => void;
+  signal?: AbortSignal;
+  // Upload even when a file with the same SHA-256 already exists
+  allowDuplicate?: boolean;
+}
+
+// Sections of an analysis that arrive as text, token by token
+export type AnalysisTextSection = "summary" | "insights" | "recommendations";
+
+// One step of a streamed analysis. "delta" appends text to the summary or to
+// item `index` of a list section, "table" adds a complete table and "done"
+// carries the final result.
+export type AnalysisStreamEvent =
+  | { type: "delta"; section: AnalysisTextSection; index?: number; text: string }
+  | { type: "table"; table: unknown }
+  | { type: "done"; result: unknown };
+
+// Inclusive start and exclusive end, in epoch milliseconds
+export interface TimeRange {
+  from: number;
+  to: number;
+}
+
+export interface AnalyzeFileOptions {
+  // Called for every event while the analysis streams in
+  onEvent?: (event: AnalysisStreamEvent) => void;
+  // Stops the analysis; analyzeFile then rejects with an AbortError
+  signal?: AbortSignal;
+  // Only look at log entries from this time window
+  timeRange?: TimeRange;
+}
+
+export interface ChunkedUploadInit {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  chunkSize: number;
+  totalChunks: number;
+}
+
+export interface ChunkedUploadSession {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  // Indexes of the chunks the backend has already stored
+  receivedChunks: number[];
+}
+
+// Contract every file backend has to fulfil. The UI only talks to
+// fileService.ts, which forwards to whichever adapter is configured.
+export interface FileServiceAdapter {
+  submitFile: (file: FileItem, options?: SubmitFileOptions) => Promise<FileItem>;
+  getSubmittedFiles: () => Promise<FileItem[]>;
+  getFilteredFiles: (filters: FileFilters, pagination: Pagination, sort?: FileSort) => Promise<FilteredFilesResult>;
+  // Files whose contents match the search words of the query, newest first,
+  // at most `limit` of them. The other filters apply as usual.
+  searchFileContents: (filters: FileFilters, limit: number) => Promise<ContentSearchResult[]>;
+  deleteFile: (fileId: string) => Promise<boolean>;
+  // Resolves to null when the file is unknown
+  getFile: (fileId: string) => Promise<FileItem | null>;
+  // Answer one question about one or more files, so the backend can
+  // correlate them. Resolves to the complete result once the stream has
+  // finished.
+  analyzeFile: (fileIds: string[], prompt: string, options?: AnalyzeFileOptions) => Promise<unknown>;
+  // Previous analysis results for a file, oldest first
+  getFileAnalyses: (fileId: string) => Promise<unknown[]>;
+  findFileByHash: (sha256: string) => Promise<FileItem | null>;
+  // Raw bytes of an uploaded file
+  getFileContent: (fileId: string) => Promise<Blob>;
+
+  // Chunked upload protocol: init -> put-chunk (any order) -> complete
+  initChunkedUpload: (init: ChunkedUploadInit) => Promise<ChunkedUploadSession>;
+  // Resolves to null when the backend no longer knows the session
+  getChunkedUpload: (uploadId: string) => Promise<ChunkedUploadSession | null>;
+  putChunk: (uploadId: string, index: number, chunk: Blob, checksum: string, signal?: AbortSignal) => Promise<void>;
+  completeChunkedUpload: (uploadId: string, file: FileItem) => Promise<FileItem>;
+}
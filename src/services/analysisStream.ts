@@ -0,0 +1,122 @@
+import { DiagnosticResult, DiagnosticTable } from "@/types/diagnosticResult";
+import { AnalysisStreamEvent, AnalysisTextSection, AnalyzeFileOptions } from "./adapters/types";
+
+// Helpers for streamed analyses: a reducer that builds the partial result the
+// UI renders, an SSE reader for the REST adapter and a local emitter that
+// replays a finished result the way a backend would stream it.
+
+// Delay between tokens of the local emitter
+const TOKEN_DELAY_MS = 25;
+
+const abortError = () => new DOMException("Analysis aborted", "AbortError");
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    }, { once: true });
+  });
+
+// Fold one stream event into the partial result. Returns a new object so the
+// result can go straight into React state. Expects events that fileService
+// has already validated.
+export const applyAnalysisEvent = (analysis: DiagnosticResult, event: AnalysisStreamEvent): DiagnosticResult => {
+  switch (event.type) {
+    case "delta": {
+      if (event.section === "summary") {
+        return { ...analysis, summary: analysis.summary + event.text };
+      }
+
+      const items = [...(analysis[event.section] ?? [])];
+      const index = event.index ?? items.length;
+      items[index] = (items[index] ?? "") + event.text;
+      return { ...analysis, [event.section]: items };
+    }
+    case "table":
+      return { ...analysis, tables: [...(analysis.tables ?? []), event.table as DiagnosticTable] };
+    case "done":
+      return event.result as DiagnosticResult;
+  }
+};
+
+// Words keep their trailing whitespace so joining the tokens gives back the
+// original text
+const tokenize = (text: string) => text.match(/\S+\s*/g) ?? [];
+
+// Replay a complete result as a stream of events, one token per tick.
+// Used by the local adapter in place of a real model.
+export const emitAnalysis = async (result: DiagnosticResult, { onEvent, signal }: AnalyzeFileOptions = {}) => {
+  const emitText = async (section: AnalysisTextSection, text: string, index?: number) => {
+    for (const token of tokenize(text)) {
+      await wait(TOKEN_DELAY_MS, signal);
+      onEvent?.({ type: "delta", section, index, text: token });
+    }
+  };
+
+  await emitText("summary", result.summary);
+
+  for (const section of ["insights", "recommendations"] as const) {
+    for (const [index, item] of (result[section] ?? []).entries()) {
+      await emitText(section, item, index);
+    }
+  }
+
+  for (const table of result.tables ?? []) {
+    await wait(TOKEN_DELAY_MS, signal);
+    onEvent?.({ type: "table", table });
+  }
+
+  onEvent?.({ type: "done", result });
+};
+
+// Read a text/event-stream response body. Every message carries one JSON
+// encoded AnalysisStreamEvent; an "error" event fails the analysis with the
+// backend's message. Resolves to the result of the "done" event.
+export const readAnalysisStream = async (response: Response, onEvent?: (event: AnalysisStreamEvent) => void) => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let result: unknown;
+
+  const handleMessage = (message: string) => {
+    let eventName = "message";
+    const data: string[] = [];
+
+    for (const line of message.split(/\r?\n/)) {
+      if (line.startsWith("event:")) eventName = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (data.length === 0) return;
+
+    const payload = JSON.parse(data.join("\n"));
+    if (eventName === "error") {
+      throw new Error(payload.message ?? "Analysis failed");
+    }
+
+    const event = payload as AnalysisStreamEvent;
+    if (event.type === "done") result = event.result;
+    onEvent?.(event);
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const messages = buffer.split(/\r?\n\r?\n/);
+    buffer = messages.pop()!;
+    messages.forEach(handleMessage);
+  }
+  if (buffer.trim()) handleMessage(buffer);
+
+  if (result === undefined) {
+    throw new Error("Analysis stream ended before the result was complete");
+  }
+  return result;
+};
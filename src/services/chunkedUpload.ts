@@ -0,0 +1,205 @@
+import { FileItem } from "@/components/FileUploader";
+import { sha256Hex } from "@/lib/hash";
+import { FileUploadStatus } from "@/types/file";
+import { ChunkedUploadSession, FileServiceAdapter, SubmitFileOptions } from "./adapters/types";
+
+// Files larger than this are sent with the chunked upload protocol
+export const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+const CHUNK_SIZE = 4 * 1024 * 1024;
+// Consecutive failures of a single chunk before the upload gives up. Waiting
+// for the browser to come back online does not count towards this.
+const MAX_CHUNK_ATTEMPTS = 5;
+const STORAGE_KEY = "chunked-uploads";
+// Sessions not touched for this long are forgotten; backends expire them too
+const SESSION_MAX_AGE = 24 * 60 * 60 * 1000;
+
+interface StoredUploadSession {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  completedChunks: number[];
+  updatedAt: number;
+}
+
+// Upload sessions are keyed by a fingerprint of the file so that re-selecting
+// the same file after a reload picks up where the previous attempt stopped
+const getFingerprint = (file: Pick<FileItem, "name" | "size" | "lastModified">): string =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+const readSessions = (): Record<string, StoredUploadSession> => {
+  let sessions: Record<string, StoredUploadSession>;
+  try {
+    sessions = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+
+  // Expired sessions are pruned as they are found
+  const now = Date.now();
+  const live = Object.fromEntries(
+    Object.entries(sessions).filter(([, session]) => now - session.updatedAt <= SESSION_MAX_AGE)
+  );
+  if (Object.keys(live).length < Object.keys(sessions).length) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(live));
+  }
+  return live;
+};
+
+const writeSession = (fingerprint: string, session: StoredUploadSession | null) => {
+  const sessions = readSessions();
+  if (session) {
+    sessions[fingerprint] = session;
+  } else {
+    delete sessions[fingerprint];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+};
+
+// Percentage of a previously interrupted upload that is already stored, or
+// null when there is nothing to resume for this file
+export const getResumableProgress = (file: Pick<FileItem, "name" | "size" | "lastModified">): number | null => {
+  const session = readSessions()[getFingerprint(file)];
+  if (!session || session.completedChunks.length === 0) return null;
+
+  return Math.round((session.completedChunks.length / session.totalChunks) * 100);
+};
+
+const abortError = () => new DOMException("Upload aborted", "AbortError");
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    }, { once: true });
+  });
+
+const waitForOnline = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onOnline = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      window.removeEventListener("online", onOnline);
+      reject(abortError());
+    };
+    window.addEventListener("online", onOnline, { once: true });
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Reuse the stored session when the backend still has it, otherwise start over
+const openSession = async (
+  adapter: FileServiceAdapter,
+  file: FileItem,
+  fingerprint: string
+): Promise<{ session: ChunkedUploadSession; resumed: boolean }> => {
+  const stored = readSessions()[fingerprint];
+
+  if (stored) {
+    const session = await adapter.getChunkedUpload(stored.uploadId);
+    if (session) {
+      return { session, resumed: true };
+    }
+  }
+
+  const session = await adapter.initChunkedUpload({
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    chunkSize: CHUNK_SIZE,
+    totalChunks: Math.max(1, Math.ceil(file.size / CHUNK_SIZE))
+  });
+
+  return { session, resumed: false };
+};
+
+// Upload a file through init / put-chunk / complete. Each chunk carries a
+// SHA-256 checksum; progress is persisted after every chunk so the upload can
+// resume after a network drop or a tab reload.
+export const uploadInChunks = async (
+  adapter: FileServiceAdapter,
+  file: FileItem,
+  options: SubmitFileOptions = {}
+): Promise<FileItem> => {
+  const { blob } = file;
+  if (!blob) {
+    throw new Error("Chunked uploads need the file contents");
+  }
+
+  const { onProgress, onStatusChange, signal } = options;
+  const fingerprint = getFingerprint(file);
+  const { session, resumed } = await openSession(adapter, file, fingerprint);
+  const completed = new Set(session.receivedChunks);
+
+  const persist = () => writeSession(fingerprint, {
+    uploadId: session.uploadId,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    completedChunks: Array.from(completed),
+    updatedAt: Date.now()
+  });
+
+  let status = FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS;
+  const setStatus = (next: FileUploadStatus) => {
+    if (next === status) return;
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const reportProgress = () =>
+    onProgress?.(Math.round((completed.size / session.totalChunks) * 100));
+
+  persist();
+  if (resumed) {
+    setStatus(FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING);
+  }
+  reportProgress();
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (completed.has(index)) continue;
+
+    const chunk = blob.slice(index * session.chunkSize, (index + 1) * session.chunkSize);
+    const checksum = await sha256Hex(chunk);
+    let attempts = 0;
+
+    while (true) {
+      if (signal?.aborted) throw abortError();
+
+      try {
+        await adapter.putChunk(session.uploadId, index, chunk, checksum, signal);
+        break;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+
+        setStatus(FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED);
+
+        if (!navigator.onLine) {
+          await waitForOnline(signal);
+        } else {
+          attempts++;
+          if (attempts >= MAX_CHUNK_ATTEMPTS) throw error;
+          await wait(Math.min(30000, 1000 * 2 ** attempts), signal);
+        }
+
+        setStatus(FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING);
+      }
+    }
+
+    completed.add(index);
+    persist();
+    setStatus(FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS);
+    reportProgress();
+  }
+
+  const uploadedFile = await adapter.completeChunkedUpload(session.uploadId, file);
+  writeSession(fingerprint, null);
+  onProgress?.(100);
+
+  return uploadedFile;
+};
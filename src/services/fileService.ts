@@ -1,202 +1,147 @@
 import { FileItem } from "@/components/FileUploader";
-import { FileUploadStatus } from "@/types/file";
-
-// In-memory storage for submitted files
-let submittedFiles: FileItem[] = [];
-
-// This function would be replaced with an actual API call in a real application
-export const submitFile = async (file: FileItem): Promise<FileItem> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 800));
-  
-  // Add file to our "database"
-  const submittedFile = { ...file, id: file.id || crypto.randomUUID() };
-  submittedFiles = [submittedFile, ...submittedFiles];
-  
-  console.log("File submitted to API:", submittedFile);
-  return submittedFile;
+import { createLocalAdapter } from "./adapters/localAdapter";
+import { createRestAdapter } from "./adapters/restAdapter";
+import { isIndexedDbAvailable } from "./storage/database";
+import { createIndexedDbFileStore, createMemoryFileStore } from "./storage/fileStore";
+import { CHUNKED_UPLOAD_THRESHOLD, uploadInChunks } from "./chunkedUpload";
+import { DiagnosticResult, parseDiagnosticResult, parseDiagnosticTable } from "@/types/diagnosticResult";
+import { AnalyzeFileOptions, ContentSearchResult, FileFilters, FileServiceAdapter, FileSort, FilteredFilesResult, Pagination, SubmitFileOptions } from "./adapters/types";
+
+// Pick the backend from the Vite env config:
+//   VITE_FILE_SERVICE_ADAPTER=local (default) | memory | rest
+//   VITE_FILE_SERVICE_URL=http://localhost:3001/api  (required for "rest")
+// "local" keeps the workspace in IndexedDB so it survives reloads and works
+// offline; "memory" forgets everything on reload.
+const createAdapter = (): FileServiceAdapter => {
+  const adapter = import.meta.env.VITE_FILE_SERVICE_ADAPTER || "local";
+
+  switch (adapter) {
+    case "rest": {
+      const baseUrl = import.meta.env.VITE_FILE_SERVICE_URL;
+      if (!baseUrl) {
+        throw new Error("VITE_FILE_SERVICE_URL must be set when using the rest file service adapter");
+      }
+      return createRestAdapter({ baseUrl });
+    }
+    case "local":
+      if (!isIndexedDbAvailable()) {
+        console.warn("IndexedDB is not available, files will not be kept after a reload");
+        return createLocalAdapter(createMemoryFileStore());
+      }
+      return createLocalAdapter(createIndexedDbFileStore());
+    case "memory":
+      return createLocalAdapter(createMemoryFileStore());
+    default:
+      throw new Error(`Unknown file service adapter "${adapter}"`);
+  }
 };
 
-// Generate a batch of mock files for demo purposes
-const generateMockFiles = (count: number): FileItem[] => {
-  const fileTypes = ["application/gzip", "application/json", "text/plain", "application/yaml", "text/csv"];
-  const fileExtensions = [".tgz", ".json", ".log", ".yaml", ".csv"];
-  const fileContexts = [
-    "Production Kubernetes cluster logs",
-    "API Gateway performance metrics",
-    "Application's diagnostics bundle",
-    "Database performance logs",
-    "Service mesh traffic data",
-    "Container orchestration logs",
-    "Infrastructure scaling events",
-    "Network latency measurements",
-    "Authentication service audit logs",
-    "Cache hit/miss statistics"
-  ];
-  const filePrefixes = [
-    "diags", "logs", "metrics", "perf", "audit", 
-    "debug", "trace", "system", "app", "api",
-    "backend", "frontend", "database", "cache", "auth",
-    "network", "infra", "monitoring", "security", "events"
-  ];
-
-  const mockFiles: FileItem[] = [];
-  
-  for (let i = 0; i < count; i++) {
-    const typeIndex = i % fileTypes.length;
-    const fileType = fileTypes[typeIndex];
-    const fileExtension = fileExtensions[typeIndex];
-    const contextIndex = i % fileContexts.length;
-    const context = fileContexts[contextIndex];
-    const prefixIndex = Math.floor(i / 5) % filePrefixes.length;
-    const prefix = filePrefixes[prefixIndex];
-    
-    // Calculate a file size between 100KB and 30MB
-    const fileSize = 100000 + Math.floor(Math.random() * 30000000);
-    
-    // Create a date between 1 day ago and 30 days ago
-    const date = new Date();
-    date.setDate(date.getDate() - (1 + Math.floor(Math.random() * 30)));
-    
-    mockFiles.push({
-      id: crypto.randomUUID(),
-      name: `${prefix}-${i + 1}${fileExtension}`,
-      size: fileSize,
-      type: fileType,
-      context: `${context} from ${date.toLocaleDateString()}`,
-      lastModified: date.getTime(),
-      status: FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE,
-      progress: 100
-    });
+const adapter = createAdapter();
+
+// Thrown by submitFile when the backend already has a file with the same
+// contents. Callers can reuse existingFile or resubmit with allowDuplicate.
+export class DuplicateFileError extends Error {
+  existingFile: FileItem;
+
+  constructor(existingFile: FileItem) {
+    super(`"${existingFile.name}" has already been uploaded`);
+    this.name = "DuplicateFileError";
+    this.existingFile = existingFile;
+  }
+}
+
+// Submit a new file (and its bytes, when present) to the configured backend.
+// Large files go through the resumable chunked upload protocol.
+export const submitFile = async (file: FileItem, options?: SubmitFileOptions): Promise<FileItem> => {
+  if (file.sha256 && !options?.allowDuplicate) {
+    const existingFile = await adapter.findFileByHash(file.sha256);
+    if (existingFile) {
+      throw new DuplicateFileError(existingFile);
+    }
+  }
+
+  if (file.blob && file.blob.size > CHUNKED_UPLOAD_THRESHOLD) {
+    return uploadInChunks(adapter, file, options);
   }
-  
-  console.log(`Generated ${count} mock files`);
-  return mockFiles;
+
+  return adapter.submitFile(file, options);
 };
 
 // Get all previously submitted files
 export const getSubmittedFiles = async (): Promise<FileItem[]> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  console.log("Getting submitted files, current count:", submittedFiles.length);
-  
-  // If we don't have any files yet, create some mock files for demo purposes
-  if (submittedFiles.length === 0) {
-    submittedFiles = generateMockFiles(1000); // Changed from 27 to 1000
-    console.log("Generated mock files:", submittedFiles.length);
-  }
-  
-  return submittedFiles;
+  return adapter.getSubmittedFiles();
 };
 
 // Get files with pagination and filtering
 export const getFilteredFiles = async (
-  filters: {
-    query?: string;
-    fileTypes?: string[];
-    dateRange?: { from?: Date; to?: Date };
-  },
-  pagination: {
-    page: number;
-    limit: number;
-  }
-): Promise<{ files: FileItem[]; total: number }> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 200));
-  
-  // Ensure we have files to filter
-  if (submittedFiles.length === 0) {
-    submittedFiles = generateMockFiles(1000); // Changed from 27 to 1000
-    console.log("Generated mock files in getFilteredFiles:", submittedFiles.length);
-  }
-  
-  // Filter files based on criteria
-  let filtered = [...submittedFiles];
-  
-  // Apply text search filter
-  if (filters.query && filters.query.trim() !== '') {
-    const query = filters.query.toLowerCase();
-    filtered = filtered.filter(
-      file => 
-        file.name.toLowerCase().includes(query) || 
-        (file.context && file.context.toLowerCase().includes(query))
-    );
-  }
-  
-  // Apply file type filter
-  if (filters.fileTypes && filters.fileTypes.length > 0) {
-    filtered = filtered.filter(file => 
-      filters.fileTypes?.includes(file.type)
-    );
-  }
-  
-  // Apply date range filter
-  if (filters.dateRange) {
-    if (filters.dateRange.from) {
-      filtered = filtered.filter(file => 
-        file.lastModified >= filters.dateRange!.from!.getTime()
-      );
-    }
-    
-    if (filters.dateRange.to) {
-      filtered = filtered.filter(file => 
-        file.lastModified <= filters.dateRange!.to!.getTime()
-      );
-    }
-  }
-  
-  // Get total count before pagination
-  const total = filtered.length;
-  
-  // Apply pagination
-  const startIdx = (pagination.page - 1) * pagination.limit;
-  const endIdx = startIdx + pagination.limit;
-  const paginatedFiles = filtered.slice(startIdx, endIdx);
-  
-  console.log(`Filtered files: ${filtered.length}, Paginated: ${paginatedFiles.length}, Page: ${pagination.page}, Limit: ${pagination.limit}, StartIdx: ${startIdx}, EndIdx: ${endIdx}`);
-  
-  return { files: paginatedFiles, total };
+  filters: FileFilters,
+  pagination: Pagination,
+  sort?: FileSort
+): Promise<FilteredFilesResult> => {
+  return adapter.getFilteredFiles(filters, pagination, sort);
+};
+
+// Search inside the files: matching lines of the newest matching files
+export const searchFileContents = async (filters: FileFilters, limit: number): Promise<ContentSearchResult[]> => {
+  return adapter.searchFileContents(filters, limit);
+};
+
+// Metadata of one file, e.g. for a viewer opened from a link
+export const getFile = async (fileId: string): Promise<FileItem | null> => {
+  return adapter.getFile(fileId);
 };
 
 // Delete a file
 export const deleteFile = async (fileId: string): Promise<boolean> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  const initialLength = submittedFiles.length;
-  submittedFiles = submittedFiles.filter(file => file.id !== fileId);
-  
-  // Return true if a file was deleted
-  return submittedFiles.length < initialLength;
+  return adapter.deleteFile(fileId);
 };
 
-// Analyze a diagnostic file and return results
-// In a real application, this would send the file to a backend service for analysis
-export const analyzeFile = async (fileId: string, prompt: string): Promise<any> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  const file = submittedFiles.find(f => f.id === fileId);
-  
-  if (!file) {
-    throw new Error("File not found");
+// Previous analysis results for a file, oldest first
+export const getFileAnalyses = async (fileId: string): Promise<DiagnosticResult[]> => {
+  const analyses = await adapter.getFileAnalyses(fileId);
+  return analyses.map(parseDiagnosticResult);
+};
+
+// Download the raw bytes of an uploaded file
+export const getFileContent = async (fileId: string): Promise<Blob> => {
+  return adapter.getFileContent(fileId);
+};
+
+// Analyze one or more diagnostic files together and return results. Pass
+// onEvent to render the answer while it streams in and signal to stop it.
+// Whatever the backend sends is validated here, so the UI only ever sees a
+// DiagnosticResult.
+export const analyzeFile = async (
+  fileIds: string[],
+  prompt: string,
+  options: AnalyzeFileOptions = {}
+): Promise<DiagnosticResult> => {
+  const startedAt = Date.now();
+  const { onEvent } = options;
+
+  const payload = await adapter.analyzeFile(fileIds, prompt, {
+    ...options,
+    onEvent: onEvent && ((event) => {
+      if (event.type === "table") {
+        const table = parseDiagnosticTable(event.table);
+        if (table) {
+          onEvent({ ...event, table });
+        } else {
+          console.warn("Dropped an invalid table from the analysis stream", event.table);
+        }
+      } else if (event.type === "done") {
+        onEvent({ ...event, result: parseDiagnosticResult(event.result) });
+      } else {
+        onEvent(event);
+      }
+    })
+  });
+
+  const result = parseDiagnosticResult(payload);
+  if (result.validationIssues) {
+    console.warn("Analysis result failed validation", result.validationIssues);
   }
-  
-  console.log(`Analyzing file ${file.name} with prompt: ${prompt}`);
-  
-  // Mock response - in a real app this would come from the backend
-  return {
-    summary: "Analysis identified multiple pod startup failures in the Kubernetes cluster. The issues appear to be related to container initialization problems with the 'alex-bird' service.",
-    insights: [
-      "Consistent failures in pod initialization at 11:57:35 AM on September 26",
-      "All errors are related to the same service component",
-      "The StartContainer command is failing consistently"
-    ],
-    recommendations: [
-      "Check the container image for the 'alex-bird' service",
-      "Verify resource constraints on the affected pods",
-      "Inspect init container configurations"
-    ]
-  };
+
+  // Backends that do not report timings still get a duration in the UI
+  return result.timings ? result : { ...result, timings: { durationMs: Date.now() - startedAt } };
 };
@@ -0,0 +1,133 @@
+import { ChatMessage, ChatSession } from "@/types/session";
+import { isIndexedDbAvailable } from "./storage/database";
+import { createIndexedDbSessionStore, createMemorySessionStore } from "./storage/sessionStore";
+
+// Chat sessions live in the browser whichever file backend is configured.
+// Components read them through useSessions(); every change goes through the
+// functions below so all subscribers see the same list.
+
+const MAX_TITLE_LENGTH = 60;
+
+export interface SessionsState {
+  // Most recently updated first
+  sessions: ChatSession[];
+  loaded: boolean;
+}
+
+const store = isIndexedDbAvailable() ? createIndexedDbSessionStore() : createMemorySessionStore();
+
+const listeners: Array<(state: SessionsState) => void> = [];
+
+let memoryState: SessionsState = { sessions: [], loaded: false };
+let loading: Promise<void> | null = null;
+
+const setState = (state: SessionsState) => {
+  memoryState = state;
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+};
+
+const upsert = (session: ChatSession) => {
+  setState({
+    ...memoryState,
+    sessions: [session, ...memoryState.sessions.filter(s => s.id !== session.id)]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+  });
+};
+
+export const getSessionsState = () => memoryState;
+
+export const subscribeToSessions = (listener: (state: SessionsState) => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
+
+// Read the stored sessions once; later calls reuse the first load
+export const loadSessions = (): Promise<void> => {
+  loading ??= store.listSessions().then(
+    (sessions) => setState({ sessions, loaded: true }),
+    (error) => {
+      console.error("Could not load chat sessions", error);
+      setState({ ...memoryState, loaded: true });
+    }
+  );
+  return loading;
+};
+
+export const getSession = async (sessionId: string): Promise<ChatSession | null> => {
+  await loadSessions();
+  return memoryState.sessions.find(session => session.id === sessionId) ?? null;
+};
+
+// Title for a new session, from its first question or file
+export const getSessionTitle = (message: ChatMessage): string => {
+  const text = message.content.trim().replace(/\s+/g, " ") || message.files?.map(file => file.name).join(", ") || "New investigation";
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+};
+
+const getFileIds = (messages: ChatMessage[]) => [
+  ...new Set(messages.flatMap(message => message.files?.map(file => file.id) ?? []))
+];
+
+export const createSession = async (firstMessage: ChatMessage): Promise<ChatSession> => {
+  const now = Date.now();
+  const session: ChatSession = {
+    id: crypto.randomUUID(),
+    title: getSessionTitle(firstMessage),
+    fileIds: getFileIds([firstMessage]),
+    messages: [firstMessage],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  upsert(session);
+  await store.putSession(session);
+  return session;
+};
+
+// Replace the messages of a session, e.g. after an answer finished streaming
+export const saveSessionMessages = async (sessionId: string, messages: ChatMessage[]): Promise<void> => {
+  const session = await getSession(sessionId);
+  if (!session) return;
+
+  const updated = { ...session, messages, fileIds: getFileIds(messages), updatedAt: Date.now() };
+  upsert(updated);
+  await store.putSession(updated);
+};
+
+export const renameSession = async (sessionId: string, title: string): Promise<void> => {
+  const session = await getSession(sessionId);
+  const trimmed = title.trim();
+  if (!session || !trimmed || trimmed === session.title) return;
+
+  // Renaming does not count as activity, so the session keeps its place
+  const updated = { ...session, title: trimmed };
+  await store.putSession(updated);
+  upsert(updated);
+};
+
+// The list only changes once the store did, so a failed delete keeps it
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  await store.deleteSession(sessionId);
+  setState({
+    ...memoryState,
+    sessions: memoryState.sessions.filter(session => session.id !== sessionId)
+  });
+};
+
+// Case-insensitive match on the title and on everything said in the session
+export const searchSessions = (sessions: ChatSession[], query: string): ChatSession[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return sessions;
+
+  return sessions.filter(session =>
+    session.title.toLowerCase().includes(needle) ||
+    session.messages.some(message => message.content.toLowerCase().includes(needle))
+  );
+};
@@ -0,0 +1,107 @@
+// IndexedDB database behind the local workspace. The schema only ever moves
+// forward: to change it, append a migration to MIGRATIONS. The database
+// version is the number of migrations, so existing installs run just the
+// ones they have not seen yet.
+
+const DB_NAME = "diagnostics-workspace";
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  // v1: file metadata, uploaded bytes, analysis results and workspace flags
+  (db) => {
+    const files = db.createObjectStore("files", { keyPath: "id" });
+    files.createIndex("storedAt", "storedAt");
+    files.createIndex("sha256", "file.sha256");
+    db.createObjectStore("blobs");
+    db.createObjectStore("analyses");
+    db.createObjectStore("meta");
+  },
+  // v2: chat sessions
+  (db) => {
+    const sessions = db.createObjectStore("sessions", { keyPath: "id" });
+    sessions.createIndex("updatedAt", "updatedAt");
+  },
+  // v3: a message can be about several files ("file" became "files")
+  (_db, transaction) => {
+    const request = transaction.objectStore("sessions").openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      const session = cursor.value;
+      cursor.update({
+        ...session,
+        messages: session.messages.map(({ file, ...message }) => file ? { ...message, files: [file] } : message)
+      });
+      cursor.continue();
+    };
+  },
+  // v4: words of every text document, for searching inside files
+  (db) => {
+    const contents = db.createObjectStore("contents", { keyPath: ["fileId", "path"] });
+    contents.createIndex("fileId", "fileId");
+    contents.createIndex("terms", "terms", { multiEntry: true });
+  },
+  // v5: chunked uploads in flight, so they can resume after a reload
+  (db) => {
+    db.createObjectStore("uploads", { keyPath: "uploadId" });
+    db.createObjectStore("uploadChunks");
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== "undefined";
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; let it proceed and reopen next time
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+
+    request.onblocked = () => {
+      console.warn("Workspace database upgrade is blocked by another open tab");
+    };
+  });
+
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
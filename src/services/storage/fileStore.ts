@@ -0,0 +1,346 @@
+import { FileItem } from "@/components/FileUploader";
+import { ContentDocument } from "@/lib/search/contents";
+import { ChunkedUploadInit } from "../adapters/types";
+import { openDatabase, requestToPromise, transactionDone } from "./database";
+
+// Where the local adapter keeps files. The IndexedDB store survives reloads
+// and works offline; the memory store is the fallback when IndexedDB is not
+// available (e.g. some private browsing modes).
+export interface FileStore {
+  // Newest first
+  listFiles: () => Promise<FileItem[]>;
+  getFile: (fileId: string) => Promise<FileItem | undefined>;
+  findFileByHash: (sha256: string) => Promise<FileItem | undefined>;
+  // Adds or replaces files; blobs are keyed by file id
+  putFiles: (files: FileItem[], blobs?: Map<string, Blob>) => Promise<void>;
+  deleteFile: (fileId: string) => Promise<boolean>;
+  getBlob: (fileId: string) => Promise<Blob | undefined>;
+  getAnalyses: (fileId: string) => Promise<unknown[]>;
+  addAnalysis: (fileId: string, result: unknown) => Promise<void>;
+  // Small workspace-wide flags
+  getMeta: <T>(key: string) => Promise<T | undefined>;
+  setMeta: (key: string, value: unknown) => Promise<void>;
+  // Contents index: replaces the text documents of a file
+  putContentDocuments: (fileId: string, documents: ContentDocument[]) => Promise<void>;
+  // Files whose contents have been indexed, text or not
+  listContentIndexedFileIds: () => Promise<string[]>;
+  // Documents with a word starting with each of the terms
+  findContentDocuments: (terms: string[]) => Promise<ContentDocumentKey[]>;
+  // Chunked uploads in flight, kept until they complete or expire
+  putUpload: (upload: StoredUpload) => Promise<void>;
+  getUpload: (uploadId: string) => Promise<StoredUpload | undefined>;
+  listUploads: () => Promise<StoredUpload[]>;
+  // Removes the upload with its chunks
+  deleteUpload: (uploadId: string) => Promise<void>;
+  putUploadChunk: (uploadId: string, index: number, chunk: Blob) => Promise<void>;
+  // Stored chunks by index
+  getUploadChunks: (uploadId: string) => Promise<Map<number, Blob>>;
+}
+
+export interface StoredUpload {
+  uploadId: string;
+  init: ChunkedUploadInit;
+  // Last time a chunk arrived, for expiry
+  updatedAt: number;
+}
+
+export interface ContentDocumentKey {
+  fileId: string;
+  path: string;
+}
+
+interface StoredContentDocument extends ContentDocument {
+  fileId: string;
+}
+
+interface StoredFile {
+  id: string;
+  file: FileItem;
+  // Insertion time, used to list the newest files first
+  storedAt: number;
+}
+
+// Keeps putFiles ordering stable when several files share a millisecond
+let lastStoredAt = 0;
+const nextStoredAt = () => {
+  lastStoredAt = Math.max(Date.now(), lastStoredAt + 1);
+  return lastStoredAt;
+};
+
+// Blobs only live in the blob store, never on the metadata record
+const toMetadata = ({ blob, ...metadata }: FileItem): FileItem => metadata;
+
+// A file without any text still gets one empty document, which marks it as
+// indexed
+const withPlaceholder = (documents: ContentDocument[]): ContentDocument[] =>
+  documents.length > 0 ? documents : [{ path: "", terms: [] }];
+
+// All primary keys of a file's documents
+const fileDocumentsRange = (fileId: string) => IDBKeyRange.bound([fileId, ""], [fileId, "\uffff"]);
+
+// Chunks are keyed by [uploadId, index]
+const uploadChunksRange = (uploadId: string) => IDBKeyRange.bound([uploadId, 0], [uploadId, Infinity]);
+
+export const createIndexedDbFileStore = (): FileStore => {
+  const listFiles = async (): Promise<FileItem[]> => {
+    const db = await openDatabase();
+    const index = db.transaction("files").objectStore("files").index("storedAt");
+    const records = await requestToPromise(index.getAll() as IDBRequest<StoredFile[]>);
+    return records.reverse().map(record => record.file);
+  };
+
+  const getFile = async (fileId: string): Promise<FileItem | undefined> => {
+    const db = await openDatabase();
+    const record = await requestToPromise(
+      db.transaction("files").objectStore("files").get(fileId) as IDBRequest<StoredFile | undefined>
+    );
+    return record?.file;
+  };
+
+  const findFileByHash = async (sha256: string): Promise<FileItem | undefined> => {
+    const db = await openDatabase();
+    const index = db.transaction("files").objectStore("files").index("sha256");
+    const record = await requestToPromise(index.get(sha256) as IDBRequest<StoredFile | undefined>);
+    return record?.file;
+  };
+
+  const putFiles = async (files: FileItem[], blobs?: Map<string, Blob>): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(["files", "blobs"], "readwrite");
+    const fileStore = transaction.objectStore("files");
+    const blobStore = transaction.objectStore("blobs");
+
+    // Reversed so the first file ends up newest, matching listFiles order
+    [...files].reverse().forEach(file => {
+      const record: StoredFile = { id: file.id, file: toMetadata(file), storedAt: nextStoredAt() };
+      fileStore.put(record);
+
+      const blob = blobs?.get(file.id);
+      if (blob) {
+        blobStore.put(blob, file.id);
+      }
+    });
+
+    await transactionDone(transaction);
+  };
+
+  const deleteFile = async (fileId: string): Promise<boolean> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(["files", "blobs", "analyses", "contents"], "readwrite");
+    const existing = await requestToPromise(transaction.objectStore("files").count(fileId));
+
+    transaction.objectStore("files").delete(fileId);
+    transaction.objectStore("blobs").delete(fileId);
+    transaction.objectStore("analyses").delete(fileId);
+    transaction.objectStore("contents").delete(fileDocumentsRange(fileId));
+    await transactionDone(transaction);
+
+    return existing > 0;
+  };
+
+  const getBlob = async (fileId: string): Promise<Blob | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction("blobs").objectStore("blobs").get(fileId) as IDBRequest<Blob | undefined>);
+  };
+
+  const getAnalyses = async (fileId: string): Promise<unknown[]> => {
+    const db = await openDatabase();
+    const analyses = await requestToPromise(
+      db.transaction("analyses").objectStore("analyses").get(fileId) as IDBRequest<unknown[] | undefined>
+    );
+    return analyses ?? [];
+  };
+
+  const addAnalysis = async (fileId: string, result: unknown): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction("analyses", "readwrite");
+    const store = transaction.objectStore("analyses");
+    const analyses = await requestToPromise(store.get(fileId) as IDBRequest<unknown[] | undefined>);
+    store.put([...(analyses ?? []), result], fileId);
+    await transactionDone(transaction);
+  };
+
+  const getMeta = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction("meta").objectStore("meta").get(key) as IDBRequest<T | undefined>);
+  };
+
+  const setMeta = async (key: string, value: unknown): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction("meta", "readwrite");
+    transaction.objectStore("meta").put(value, key);
+    await transactionDone(transaction);
+  };
+
+  const putContentDocuments = async (fileId: string, documents: ContentDocument[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction("contents", "readwrite");
+    const store = transaction.objectStore("contents");
+
+    store.delete(fileDocumentsRange(fileId));
+    withPlaceholder(documents).forEach(document => {
+      const record: StoredContentDocument = { fileId, ...document };
+      store.put(record);
+    });
+
+    await transactionDone(transaction);
+  };
+
+  const listContentIndexedFileIds = async (): Promise<string[]> => {
+    const db = await openDatabase();
+    const index = db.transaction("contents").objectStore("contents").index("fileId");
+    const keys = await requestToPromise(index.getAllKeys() as IDBRequest<[string, string][]>);
+    return Array.from(new Set(keys.map(([fileId]) => fileId)));
+  };
+
+  const findContentDocuments = async (terms: string[]): Promise<ContentDocumentKey[]> => {
+    if (terms.length === 0) return [];
+
+    const db = await openDatabase();
+    const index = db.transaction("contents").objectStore("contents").index("terms");
+    // Primary keys of the documents with a word starting with each term
+    const matches = await Promise.all(terms.map(async term => {
+      const keys = await requestToPromise(
+        index.getAllKeys(IDBKeyRange.bound(term, term + "\uffff")) as IDBRequest<[string, string][]>
+      );
+      return new Set(keys.map(key => JSON.stringify(key)));
+    }));
+
+    const [first, ...rest] = matches;
+    return Array.from(first)
+      .filter(key => rest.every(keys => keys.has(key)))
+      .map(key => {
+        const [fileId, path] = JSON.parse(key) as [string, string];
+        return { fileId, path };
+      });
+  };
+
+  const putUpload = async (upload: StoredUpload): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction("uploads", "readwrite");
+    transaction.objectStore("uploads").put(upload);
+    await transactionDone(transaction);
+  };
+
+  const getUpload = async (uploadId: string): Promise<StoredUpload | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise(
+      db.transaction("uploads").objectStore("uploads").get(uploadId) as IDBRequest<StoredUpload | undefined>
+    );
+  };
+
+  const listUploads = async (): Promise<StoredUpload[]> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction("uploads").objectStore("uploads").getAll() as IDBRequest<StoredUpload[]>);
+  };
+
+  const deleteUpload = async (uploadId: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(["uploads", "uploadChunks"], "readwrite");
+    transaction.objectStore("uploads").delete(uploadId);
+    transaction.objectStore("uploadChunks").delete(uploadChunksRange(uploadId));
+    await transactionDone(transaction);
+  };
+
+  const putUploadChunk = async (uploadId: string, index: number, chunk: Blob): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction("uploadChunks", "readwrite");
+    transaction.objectStore("uploadChunks").put(chunk, [uploadId, index]);
+    await transactionDone(transaction);
+  };
+
+  const getUploadChunks = async (uploadId: string): Promise<Map<number, Blob>> => {
+    const db = await openDatabase();
+    const store = db.transaction("uploadChunks").objectStore("uploadChunks");
+    const range = uploadChunksRange(uploadId);
+    const [keys, chunks] = await Promise.all([
+      requestToPromise(store.getAllKeys(range) as IDBRequest<[string, number][]>),
+      requestToPromise(store.getAll(range) as IDBRequest<Blob[]>)
+    ]);
+    return new Map(keys.map(([, index], position) => [index, chunks[position]]));
+  };
+
+  return {
+    listFiles,
+    getFile,
+    findFileByHash,
+    putFiles,
+    deleteFile,
+    getBlob,
+    getAnalyses,
+    addAnalysis,
+    getMeta,
+    setMeta,
+    putContentDocuments,
+    listContentIndexedFileIds,
+    findContentDocuments,
+    putUpload,
+    getUpload,
+    listUploads,
+    deleteUpload,
+    putUploadChunk,
+    getUploadChunks
+  };
+};
+
+export const createMemoryFileStore = (): FileStore => {
+  let files: FileItem[] = [];
+  const blobs = new Map<string, Blob>();
+  const analyses = new Map<string, unknown[]>();
+  const meta = new Map<string, unknown>();
+  const contents = new Map<string, ContentDocument[]>();
+  const uploads = new Map<string, StoredUpload>();
+  const uploadChunks = new Map<string, Map<number, Blob>>();
+
+  return {
+    listFiles: async () => files,
+    getFile: async (fileId) => files.find(file => file.id === fileId),
+    findFileByHash: async (sha256) => files.find(file => file.sha256 === sha256),
+    putFiles: async (newFiles, newBlobs) => {
+      const ids = new Set(newFiles.map(file => file.id));
+      files = [...newFiles.map(toMetadata), ...files.filter(file => !ids.has(file.id))];
+      newBlobs?.forEach((blob, fileId) => blobs.set(fileId, blob));
+    },
+    deleteFile: async (fileId) => {
+      const initialLength = files.length;
+      files = files.filter(file => file.id !== fileId);
+      blobs.delete(fileId);
+      analyses.delete(fileId);
+      contents.delete(fileId);
+      return files.length < initialLength;
+    },
+    getBlob: async (fileId) => blobs.get(fileId),
+    getAnalyses: async (fileId) => analyses.get(fileId) ?? [],
+    addAnalysis: async (fileId, result) => {
+      analyses.set(fileId, [...(analyses.get(fileId) ?? []), result]);
+    },
+    getMeta: async <T>(key: string) => meta.get(key) as T | undefined,
+    setMeta: async (key, value) => {
+      meta.set(key, value);
+    },
+    putContentDocuments: async (fileId, documents) => {
+      contents.set(fileId, withPlaceholder(documents));
+    },
+    listContentIndexedFileIds: async () => Array.from(contents.keys()),
+    findContentDocuments: async (terms) => {
+      if (terms.length === 0) return [];
+
+      return Array.from(contents).flatMap(([fileId, documents]) => documents
+        .filter(document => terms.every(term => document.terms.some(word => word.startsWith(term))))
+        .map(({ path }) => ({ fileId, path })));
+    },
+    putUpload: async (upload) => {
+      uploads.set(upload.uploadId, upload);
+    },
+    getUpload: async (uploadId) => uploads.get(uploadId),
+    listUploads: async () => Array.from(uploads.values()),
+    deleteUpload: async (uploadId) => {
+      uploads.delete(uploadId);
+      uploadChunks.delete(uploadId);
+    },
+    putUploadChunk: async (uploadId, index, chunk) => {
+      uploadChunks.set(uploadId, new Map(uploadChunks.get(uploadId)).set(index, chunk));
+    },
+    getUploadChunks: async (uploadId) => new Map(uploadChunks.get(uploadId))
+  };
+};
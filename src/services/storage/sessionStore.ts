@@ -0,0 +1,55 @@
+import { ChatSession } from "@/types/session";
+import { openDatabase, requestToPromise, transactionDone } from "./database";
+
+// Where chat sessions are kept. Like the file store, IndexedDB is used when
+// the browser has it and memory otherwise.
+export interface SessionStore {
+  // Most recently updated first
+  listSessions: () => Promise<ChatSession[]>;
+  putSession: (session: ChatSession) => Promise<void>;
+  deleteSession: (sessionId: string) => Promise<void>;
+}
+
+// Blobs of freshly uploaded files stay with the upload, not the transcript
+const toStoredSession = (session: ChatSession): ChatSession => ({
+  ...session,
+  messages: session.messages.map(message => message.files
+    ? { ...message, files: message.files.map(({ blob, ...file }) => file) }
+    : message
+  ),
+});
+
+export const createIndexedDbSessionStore = (): SessionStore => ({
+  listSessions: async () => {
+    const db = await openDatabase();
+    const index = db.transaction("sessions").objectStore("sessions").index("updatedAt");
+    const sessions = await requestToPromise(index.getAll() as IDBRequest<ChatSession[]>);
+    return sessions.reverse();
+  },
+  putSession: async (session) => {
+    const db = await openDatabase();
+    const transaction = db.transaction("sessions", "readwrite");
+    transaction.objectStore("sessions").put(toStoredSession(session));
+    await transactionDone(transaction);
+  },
+  deleteSession: async (sessionId) => {
+    const db = await openDatabase();
+    const transaction = db.transaction("sessions", "readwrite");
+    transaction.objectStore("sessions").delete(sessionId);
+    await transactionDone(transaction);
+  },
+});
+
+export const createMemorySessionStore = (): SessionStore => {
+  let sessions: ChatSession[] = [];
+
+  return {
+    listSessions: async () => [...sessions].sort((a, b) => b.updatedAt - a.updatedAt),
+    putSession: async (session) => {
+      sessions = [toStoredSession(session), ...sessions.filter(s => s.id !== session.id)];
+    },
+    deleteSession: async (sessionId) => {
+      sessions = sessions.filter(s => s.id !== sessionId);
+    },
+  };
+};
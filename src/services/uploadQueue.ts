@@ -0,0 +1,273 @@
+import { FileItem } from "@/components/FileUploader";
+import { FileUploadStatus } from "@/types/file";
+import { hashFile } from "@/lib/hashFile";
+import { DuplicateFileError, submitFile } from "./fileService";
+
+// Number of uploads allowed to run at the same time
+const DEFAULT_CONCURRENCY = Number(import.meta.env.VITE_UPLOAD_CONCURRENCY) || 2;
+// Automatic retries after the first failed attempt
+const MAX_AUTO_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface UploadJob {
+  id: string;
+  file: FileItem;
+  // Attempts made so far, including the one in flight
+  attempts: number;
+  error?: string;
+  // Set while waiting for the next automatic retry
+  retryAt?: number;
+  cancelled?: boolean;
+  // Set when the backend already has this content; the job waits for
+  // resolveDuplicate() before doing anything else
+  duplicateOf?: FileItem;
+  allowDuplicate?: boolean;
+}
+
+export interface UploadQueueState {
+  jobs: UploadJob[];
+  concurrency: number;
+}
+
+export type UploadQueueEvent =
+  | { type: "complete"; job: UploadJob }
+  | { type: "failed"; job: UploadJob }
+  | { type: "duplicate"; job: UploadJob; existingFile: FileItem };
+
+const stateListeners: Array<(state: UploadQueueState) => void> = [];
+const eventListeners: Array<(event: UploadQueueEvent) => void> = [];
+
+let memoryState: UploadQueueState = { jobs: [], concurrency: DEFAULT_CONCURRENCY };
+
+// Side channels that must not end up in React state
+const controllers = new Map<string, AbortController>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const setState = (state: UploadQueueState) => {
+  memoryState = state;
+  stateListeners.forEach((listener) => {
+    listener(memoryState);
+  });
+};
+
+const emit = (event: UploadQueueEvent) => {
+  eventListeners.forEach((listener) => {
+    listener(event);
+  });
+};
+
+const getJob = (id: string) => memoryState.jobs.find(job => job.id === id);
+
+const updateJob = (id: string, update: Partial<UploadJob>, fileUpdate: Partial<FileItem> = {}) => {
+  setState({
+    ...memoryState,
+    jobs: memoryState.jobs.map(job => job.id === id
+      ? { ...job, ...update, file: { ...job.file, ...fileUpdate } }
+      : job
+    )
+  });
+};
+
+const isPending = (job: UploadJob) =>
+  job.file.status === FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED && !job.retryAt && !job.duplicateOf;
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Start as many pending jobs as the concurrency limit allows
+const pump = () => {
+  while (controllers.size < memoryState.concurrency) {
+    const next = memoryState.jobs.find(job => isPending(job) && !controllers.has(job.id));
+    if (!next) return;
+    void run(next.id);
+  }
+};
+
+const run = async (id: string) => {
+  const job = getJob(id);
+  if (!job) return;
+
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  updateJob(id, { attempts: job.attempts + 1, error: undefined }, {
+    status: FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS,
+    progress: 0
+  });
+
+  try {
+    // Files queued before their checksum finished get hashed here
+    const sha256 = job.file.sha256 ?? (job.file.blob ? await hashFile(job.file.blob) : undefined);
+    if (sha256 !== job.file.sha256) {
+      updateJob(id, {}, { sha256 });
+    }
+
+    const uploadedFile = await submitFile(getJob(id)!.file, {
+      allowDuplicate: job.allowDuplicate,
+      signal: controller.signal,
+      onProgress: (progress) => updateJob(id, {}, { progress }),
+      onStatusChange: (status) => updateJob(id, {}, { status })
+    });
+
+    updateJob(id, {}, {
+      ...uploadedFile,
+      status: FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE,
+      progress: 100,
+      blob: undefined
+    });
+    emit({ type: "complete", job: getJob(id)! });
+  } catch (error) {
+    const current = getJob(id);
+    if (!current) return;
+
+    if (error instanceof DuplicateFileError) {
+      updateJob(id, { duplicateOf: error.existingFile }, {
+        status: FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED,
+        progress: 0
+      });
+      emit({ type: "duplicate", job: getJob(id)!, existingFile: error.existingFile });
+    } else if (isAbortError(error) || current.cancelled) {
+      updateJob(id, { error: "Upload cancelled", cancelled: true }, {
+        status: FileUploadStatus.FILE_UPLOAD_STATUS_FAILED
+      });
+      emit({ type: "failed", job: getJob(id)! });
+    } else if (current.attempts <= MAX_AUTO_RETRIES) {
+      // Exponential backoff: 1s, 2s, 4s...
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (current.attempts - 1);
+      updateJob(id, { error: (error as Error).message, retryAt: Date.now() + delay }, {
+        status: FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED
+      });
+      retryTimers.set(id, setTimeout(() => {
+        retryTimers.delete(id);
+        updateJob(id, { retryAt: undefined }, { status: FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED });
+        pump();
+      }, delay));
+    } else {
+      updateJob(id, { error: (error as Error).message }, {
+        status: FileUploadStatus.FILE_UPLOAD_STATUS_FAILED,
+        progress: 0
+      });
+      emit({ type: "failed", job: getJob(id)! });
+    }
+  } finally {
+    controllers.delete(id);
+    pump();
+  }
+};
+
+// Add a file to the queue. The job id is the file id.
+export const enqueueUpload = (file: FileItem): UploadJob => {
+  const job: UploadJob = {
+    id: file.id,
+    file: { ...file, status: FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED, progress: 0 },
+    attempts: 0
+  };
+
+  setState({
+    ...memoryState,
+    jobs: [job, ...memoryState.jobs.filter(j => j.id !== job.id)]
+  });
+  pump();
+
+  return job;
+};
+
+export const cancelUpload = (id: string) => {
+  const job = getJob(id);
+  if (!job || job.file.status === FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE) return;
+
+  updateJob(id, { cancelled: true });
+
+  const controller = controllers.get(id);
+  if (controller) {
+    // run() takes care of the final state once the upload rejects
+    controller.abort();
+    return;
+  }
+
+  clearTimeout(retryTimers.get(id));
+  retryTimers.delete(id);
+  updateJob(id, { error: "Upload cancelled", retryAt: undefined }, {
+    status: FileUploadStatus.FILE_UPLOAD_STATUS_FAILED
+  });
+  emit({ type: "failed", job: getJob(id)! });
+};
+
+// Manually retry a failed or cancelled upload, starting a fresh backoff cycle
+export const retryUpload = (id: string) => {
+  const job = getJob(id);
+  if (!job || job.file.status !== FileUploadStatus.FILE_UPLOAD_STATUS_FAILED) return;
+
+  if (!job.file.blob) {
+    updateJob(id, { error: "The file contents are no longer available, please select the file again" });
+    return;
+  }
+
+  updateJob(id, { attempts: 0, error: undefined, cancelled: false }, {
+    status: FileUploadStatus.FILE_UPLOAD_STATUS_UNSPECIFIED,
+    progress: 0
+  });
+  pump();
+};
+
+// Answer a duplicate prompt: either drop the upload in favour of the existing
+// file, or upload the contents again anyway
+export const resolveDuplicate = (id: string, reuseExisting: boolean) => {
+  const job = getJob(id);
+  if (!job?.duplicateOf) return;
+
+  if (reuseExisting) {
+    setState({
+      ...memoryState,
+      jobs: memoryState.jobs.filter(j => j.id !== id)
+    });
+    return;
+  }
+
+  updateJob(id, { duplicateOf: undefined, allowDuplicate: true });
+  pump();
+};
+
+// Drop a job from the queue, cancelling it first when still running
+export const removeUpload = (id: string) => {
+  cancelUpload(id);
+  setState({
+    ...memoryState,
+    jobs: memoryState.jobs.filter(job => job.id !== id)
+  });
+};
+
+export const clearFinishedUploads = () => {
+  setState({
+    ...memoryState,
+    jobs: memoryState.jobs.filter(job =>
+      job.file.status !== FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE && !job.cancelled
+    )
+  });
+};
+
+export const setUploadConcurrency = (concurrency: number) => {
+  setState({ ...memoryState, concurrency: Math.max(1, Math.floor(concurrency)) });
+  pump();
+};
+
+export const getUploadQueueState = (): UploadQueueState => memoryState;
+
+export const subscribeToUploadQueue = (listener: (state: UploadQueueState) => void) => {
+  stateListeners.push(listener);
+  return () => {
+    const index = stateListeners.indexOf(listener);
+    if (index > -1) {
+      stateListeners.splice(index, 1);
+    }
+  };
+};
+
+export const subscribeToUploadEvents = (listener: (event: UploadQueueEvent) => void) => {
+  eventListeners.push(listener);
+  return () => {
+    const index = eventListeners.indexOf(listener);
+    if (index > -1) {
+      eventListeners.splice(index, 1);
+    }
+  };
+};
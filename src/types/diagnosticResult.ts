@@ -0,0 +1,162 @@
+import { z } from "zod";
+
+// Shape of an analysis result as it crosses the service boundary. Backends
+// are expected to send DIAGNOSTIC_RESULT_VERSION; results stored before the
+// version field existed are treated as version 1.
+export const DIAGNOSTIC_RESULT_VERSION = 1;
+
+export const SEVERITIES = ["info", "low", "medium", "high", "critical"] as const;
+
+export const severitySchema = z.enum(SEVERITIES);
+
+// Cells are displayed as text; numbers and booleans from a backend are fine
+const cellSchema = z
+  .union([z.string(), z.number(), z.boolean(), z.null()])
+  .transform(value => (value === null ? "" : String(value)));
+
+export const diagnosticTableSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  columns: z.array(z.string()),
+  data: z.array(z.array(cellSchema)),
+});
+
+// Where in the uploaded files a finding comes from
+export const evidenceReferenceSchema = z.object({
+  label: z.string().optional(),
+  fileId: z.string().optional(),
+  // Path inside an archive
+  path: z.string().optional(),
+  line: z.number().int().positive().optional(),
+  endLine: z.number().int().positive().optional(),
+  excerpt: z.string().optional(),
+});
+
+export const analysisTimingsSchema = z.object({
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+  durationMs: z.number().nonnegative().optional(),
+});
+
+// Log entries per time bucket and severity, for the timeline chart. Buckets
+// are consecutive and `bucketMs` long, starting at `start` (epoch ms).
+export const timelineBucketSchema = z.object({
+  start: z.number(),
+  error: z.number().nonnegative().default(0),
+  warn: z.number().nonnegative().default(0),
+  info: z.number().nonnegative().default(0),
+  other: z.number().nonnegative().default(0),
+});
+
+export const analysisTimelineSchema = z.object({
+  bucketMs: z.number().positive(),
+  buckets: z.array(timelineBucketSchema),
+});
+
+export const diagnosticResultSchema = z.object({
+  version: z.number().int().positive().default(DIAGNOSTIC_RESULT_VERSION),
+  summary: z.string(),
+  severity: severitySchema.optional(),
+  insights: z.array(z.string()).optional(),
+  recommendations: z.array(z.string()).optional(),
+  tables: z.array(diagnosticTableSchema).optional(),
+  evidence: z.array(evidenceReferenceSchema).optional(),
+  timeline: analysisTimelineSchema.optional(),
+  timings: analysisTimingsSchema.optional(),
+});
+
+export type Severity = z.infer<typeof severitySchema>;
+export type DiagnosticTable = z.infer<typeof diagnosticTableSchema>;
+export type EvidenceReference = z.infer<typeof evidenceReferenceSchema>;
+export type TimelineBucket = z.infer<typeof timelineBucketSchema>;
+export type AnalysisTimeline = z.infer<typeof analysisTimelineSchema>;
+export type AnalysisTimings = z.infer<typeof analysisTimingsSchema>;
+
+export type DiagnosticResult = z.infer<typeof diagnosticResultSchema> & {
+  // Problems found while validating the payload. The fields they refer to
+  // were dropped, everything else is safe to render.
+  validationIssues?: string[];
+};
+
+const describeIssue = (field: string, error: z.ZodError) => {
+  const issue = error.issues[0];
+  const path = [field, ...issue.path].join(".");
+  return `${path}: ${issue.message}`;
+};
+
+// Validate one list field, keeping the items that are valid
+const salvageList = <T extends z.ZodTypeAny>(
+  field: string,
+  value: unknown,
+  itemSchema: T,
+  issues: string[]
+): z.infer<T>[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push(`${field}: Expected array, received ${typeof value}`);
+    return undefined;
+  }
+
+  return value.flatMap((item, index) => {
+    const parsed = itemSchema.safeParse(item);
+    if (parsed.success) return [parsed.data];
+
+    issues.push(describeIssue(`${field}.${index}`, parsed.error));
+    return [];
+  });
+};
+
+const salvageField = <T extends z.ZodTypeAny>(field: string, value: unknown, schema: T, issues: string[]) => {
+  if (value === undefined) return undefined;
+
+  const parsed = schema.safeParse(value);
+  if (parsed.success) return parsed.data as z.infer<T>;
+
+  issues.push(describeIssue(field, parsed.error));
+  return undefined;
+};
+
+// Turn whatever a backend sent into a renderable result. Valid payloads pass
+// through unchanged; invalid ones keep every field that still validates and
+// list the rest in validationIssues instead of throwing.
+export const parseDiagnosticResult = (payload: unknown): DiagnosticResult => {
+  const parsed = diagnosticResultSchema.safeParse(payload);
+  const issues: string[] = [];
+
+  let result: DiagnosticResult;
+  if (parsed.success) {
+    result = parsed.data;
+  } else if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+    return {
+      version: DIAGNOSTIC_RESULT_VERSION,
+      summary: "",
+      validationIssues: ["The analysis response is not an object"],
+    };
+  } else {
+    const raw = payload as Record<string, unknown>;
+    result = {
+      version: salvageField("version", raw.version, diagnosticResultSchema.shape.version, issues) ?? DIAGNOSTIC_RESULT_VERSION,
+      summary: salvageField("summary", raw.summary, z.string(), issues) ?? "",
+      severity: salvageField("severity", raw.severity, severitySchema, issues),
+      insights: salvageList("insights", raw.insights, z.string(), issues),
+      recommendations: salvageList("recommendations", raw.recommendations, z.string(), issues),
+      tables: salvageList("tables", raw.tables, diagnosticTableSchema, issues),
+      evidence: salvageList("evidence", raw.evidence, evidenceReferenceSchema, issues),
+      timeline: salvageField("timeline", raw.timeline, analysisTimelineSchema, issues),
+      timings: salvageField("timings", raw.timings, analysisTimingsSchema, issues),
+    };
+    if (raw.summary === undefined) issues.push("summary: Required");
+  }
+
+  if (result.version > DIAGNOSTIC_RESULT_VERSION) {
+    issues.push(`version: Result version ${result.version} is newer than the supported version ${DIAGNOSTIC_RESULT_VERSION}`);
+  }
+
+  return issues.length > 0 ? { ...result, validationIssues: issues } : result;
+};
+
+// Tables arrive on their own while an analysis streams in
+export const parseDiagnosticTable = (payload: unknown): DiagnosticTable | null => {
+  const parsed = diagnosticTableSchema.safeParse(payload);
+  return parsed.success ? parsed.data : null;
+};
@@ -1,6 +1,25 @@
 export enum FileUploadStatus {
   FILE_UPLOAD_STATUS_UNSPECIFIED = "unspecified",
   FILE_UPLOAD_STATUS_IN_PROGRESS = "in_progress",
+  FILE_UPLOAD_STATUS_PAUSED = "paused",
+  FILE_UPLOAD_STATUS_RESUMING = "resuming",
   FILE_UPLOAD_STATUS_COMPLETE = "complete",
   FILE_UPLOAD_STATUS_FAILED = "failed"
-} 
\ No newline at end of file
+} 
+
+// Statuses in which an upload has started but not yet finished
+export const isUploadActive = (status: FileUploadStatus): boolean =>
+  status === FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS ||
+  status === FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED ||
+  status === FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING;
+
+export const getUploadStatusLabel = (status: FileUploadStatus): string => {
+  switch (status) {
+    case FileUploadStatus.FILE_UPLOAD_STATUS_PAUSED: return "Paused";
+    case FileUploadStatus.FILE_UPLOAD_STATUS_RESUMING: return "Resuming";
+    case FileUploadStatus.FILE_UPLOAD_STATUS_IN_PROGRESS: return "Uploading";
+    case FileUploadStatus.FILE_UPLOAD_STATUS_COMPLETE: return "Ready";
+    case FileUploadStatus.FILE_UPLOAD_STATUS_FAILED: return "Failed";
+    default: return "Queued";
+  }
+};
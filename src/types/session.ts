@@ -0,0 +1,31 @@
+import { FileItem } from "@/components/FileUploader";
+import { DiagnosticResult } from "@/types/diagnosticResult";
+import { TimeRange } from "@/services/adapters/types";
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  timestamp: Date;
+  sender: "user" | "assistant";
+  // Files the question was about
+  files?: FileItem[];
+  // Time window the question was limited to
+  timeRange?: TimeRange;
+  // The answer is still streaming in
+  streaming?: boolean;
+  // The user stopped the answer before it was complete
+  stopped?: boolean;
+  // Analysis shown under an assistant message, filled in while it streams
+  result?: DiagnosticResult;
+}
+
+// One investigation: a conversation and the files it talked about
+export interface ChatSession {
+  id: string;
+  title: string;
+  // Every file a message of the session was about, in first-use order
+  fileIds: string[];
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
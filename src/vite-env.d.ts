@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FILE_SERVICE_ADAPTER?: "local" | "memory" | "rest";
+  readonly VITE_FILE_SERVICE_URL?: string;
+  readonly VITE_UPLOAD_CONCURRENCY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
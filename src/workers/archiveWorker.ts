@@ -0,0 +1,48 @@
+import { ArchiveEntry, ArchiveFormat, OpenArchive, openArchive } from "@/lib/archive";
+
+export type ArchiveRequest =
+  | { id: number; type: "list"; archiveId: string; name: string; blob: Blob }
+  | { id: number; type: "extract"; archiveId: string; path: string };
+
+export type ArchiveResponse =
+  | { id: number; type: "list"; format: ArchiveFormat; entries: ArchiveEntry[] }
+  | { id: number; type: "extract"; data: Uint8Array }
+  | { id: number; type: "error"; message: string };
+
+// Decompressed archives are kept around so opening inner files is instant.
+// Only the most recently listed ones stay cached.
+const MAX_CACHED_ARCHIVES = 2;
+const archives = new Map<string, OpenArchive>();
+
+const post = (response: ArchiveResponse, transfer: Transferable[] = []) =>
+  self.postMessage(response, { transfer });
+
+self.onmessage = async (event: MessageEvent<ArchiveRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === "list") {
+      const archive = await openArchive(new Uint8Array(await request.blob.arrayBuffer()), request.name);
+
+      archives.delete(request.archiveId);
+      archives.set(request.archiveId, archive);
+      while (archives.size > MAX_CACHED_ARCHIVES) {
+        archives.delete(archives.keys().next().value!);
+      }
+
+      post({ id: request.id, type: "list", format: archive.format, entries: archive.entries });
+      return;
+    }
+
+    const archive = archives.get(request.archiveId);
+    if (!archive) {
+      throw new Error("Archive is not open");
+    }
+
+    // Copy so the transfer does not detach the cached archive buffer
+    const data = (await archive.extract(request.path)).slice();
+    post({ id: request.id, type: "extract", data }, [data.buffer]);
+  } catch (error) {
+    post({ id: request.id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,37 @@
+import { ContentDocument, ContentQuery, DocumentMatches, indexTextDocuments, searchTextDocuments } from "@/lib/search/contents";
+import { generateMockContent } from "@/services/adapters/mockContent";
+import type { FileItem } from "@/components/FileUploader";
+
+// Without a blob the file is a generated demo file
+export type ContentIndexRequest =
+  | { id: number; type: "index"; file: FileItem; blob?: Blob }
+  | { id: number; type: "search"; file: FileItem; blob?: Blob; paths: string[]; query: ContentQuery; limit: number };
+
+export type ContentIndexResponse =
+  | { id: number; type: "index"; documents: ContentDocument[] }
+  | { id: number; type: "search"; documents: DocumentMatches[] }
+  | { id: number; type: "error"; message: string };
+
+const post = (response: ContentIndexResponse) => self.postMessage(response);
+
+// Demo contents are rebuilt here rather than on the main thread
+const readBytes = async ({ file, blob }: ContentIndexRequest): Promise<Uint8Array> =>
+  new Uint8Array(await (blob ?? await generateMockContent(file)).arrayBuffer());
+
+self.onmessage = async (event: MessageEvent<ContentIndexRequest>) => {
+  const request = event.data;
+
+  try {
+    const bytes = await readBytes(request);
+
+    if (request.type === "index") {
+      post({ id: request.id, type: "index", documents: await indexTextDocuments(bytes, request.file.name) });
+      return;
+    }
+
+    const documents = await searchTextDocuments(bytes, request.file.name, request.paths, request.query, request.limit);
+    post({ id: request.id, type: "search", documents });
+  } catch (error) {
+    post({ id: request.id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,34 @@
+import { createSha256 } from "@/lib/sha256";
+
+export interface HashRequest {
+  id: number;
+  blob: Blob;
+}
+
+export type HashResponse =
+  | { id: number; type: "progress"; progress: number }
+  | { id: number; type: "done"; hash: string }
+  | { id: number; type: "error"; message: string };
+
+// Read in slices so huge files never have to fit in memory at once
+const SLICE_SIZE = 8 * 1024 * 1024;
+
+const post = (response: HashResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<HashRequest>) => {
+  const { id, blob } = event.data;
+
+  try {
+    const hasher = createSha256();
+
+    for (let offset = 0; offset < blob.size; offset += SLICE_SIZE) {
+      const slice = blob.slice(offset, offset + SLICE_SIZE);
+      hasher.update(new Uint8Array(await slice.arrayBuffer()));
+      post({ id, type: "progress", progress: Math.round((Math.min(offset + SLICE_SIZE, blob.size) / blob.size) * 100) });
+    }
+
+    post({ id, type: "done", hash: hasher.digestHex() });
+  } catch (error) {
+    post({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
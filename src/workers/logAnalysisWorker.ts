@@ -0,0 +1,36 @@
+import { analyzeLogFiles, LogAnalysisOptions } from "@/lib/log/analysis";
+import { DiagnosticResult } from "@/types/diagnosticResult";
+
+export interface LogAnalysisFile {
+  fileId: string;
+  name: string;
+  type: string;
+  lastModified?: number;
+  blob: Blob;
+}
+
+export interface LogAnalysisRequest {
+  id: number;
+  files: LogAnalysisFile[];
+  options: LogAnalysisOptions;
+}
+
+export type LogAnalysisResponse =
+  | { id: number; type: "done"; result: DiagnosticResult }
+  | { id: number; type: "error"; message: string };
+
+const post = (response: LogAnalysisResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<LogAnalysisRequest>) => {
+  const { id, files, options } = event.data;
+
+  try {
+    const inputs = await Promise.all(files.map(async ({ blob, ...file }) => ({
+      ...file,
+      bytes: new Uint8Array(await blob.arrayBuffer())
+    })));
+    post({ id, type: "done", result: await analyzeLogFiles(inputs, options) });
+  } catch (error) {
+    post({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
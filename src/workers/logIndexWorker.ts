@@ -0,0 +1,32 @@
+import { LogLineIndex, indexLog, searchLines } from "@/lib/log/lineIndex";
+
+export type LogIndexRequest =
+  // Year for timestamps that have none (syslog, klog)
+  | { id: number; type: "index"; blob: Blob; year?: number }
+  // `pattern` must have the "g" flag
+  | { id: number; type: "search"; text: string; starts: Uint32Array; pattern: RegExp; limit: number };
+
+export type LogIndexResponse =
+  | { id: number; type: "done"; text: string; index: LogLineIndex }
+  | { id: number; type: "matches"; lines: number[] }
+  | { id: number; type: "error"; message: string };
+
+const post = (response: LogIndexResponse, transfer: Transferable[] = []) =>
+  self.postMessage(response, { transfer });
+
+self.onmessage = async (event: MessageEvent<LogIndexRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === "search") {
+      post({ id: request.id, type: "matches", lines: searchLines(request.text, request, request.pattern, request.limit) });
+      return;
+    }
+
+    const text = await request.blob.text();
+    const index = indexLog(text, request.year);
+    post({ id: request.id, type: "done", text, index }, [index.starts.buffer, index.levels.buffer, index.times.buffer]);
+  } catch (error) {
+    post({ id: request.id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
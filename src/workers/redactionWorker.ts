@@ -0,0 +1,27 @@
+import { RedactionReport, RedactionRule, redactBlob } from "@/lib/redaction";
+
+export interface RedactionRequest {
+  id: number;
+  blob: Blob;
+  name: string;
+  rules: RedactionRule[];
+  // Empty to only scan
+  maskRuleIds: string[];
+}
+
+export type RedactionResponse =
+  | { id: number; type: "done"; report: RedactionReport; blob?: Blob }
+  | { id: number; type: "error"; message: string };
+
+const post = (response: RedactionResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<RedactionRequest>) => {
+  const { id, blob, name, rules, maskRuleIds } = event.data;
+
+  try {
+    const { report, bytes } = await redactBlob(blob, name, rules, maskRuleIds);
+    post({ id, type: "done", report, blob: bytes ? new Blob([bytes], { type: blob.type }) : undefined });
+  } catch (error) {
+    post({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};